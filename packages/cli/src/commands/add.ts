@@ -12,6 +12,7 @@ import { fetchFreeRegistry, getRegistryIndex } from "@/src/utils/registry"
 import { colors } from "@/src/utils/colors"
 import type { RegistryItemIndexSchema } from "@/src/utils/registry/schema"
 import { toReadableName } from "@/src/utils/common"
+import { planComponents, printPlan } from "@/src/utils/plan-components"
 
 export const addOptionsSchema = z.object({
   components: z.array(z.string()).optional(),
@@ -19,11 +20,13 @@ export const addOptionsSchema = z.object({
   path: z.string().optional(),
   silent: z.boolean(),
   overwrite: z.boolean(),
+  dryRun: z.boolean(),
+  json: z.boolean(),
 })
 
 type AddOptions = z.infer<typeof addOptionsSchema>
 
-interface CategoryMap {
+export interface CategoryMap {
   templates: RegistryItemIndexSchema
   ui: RegistryItemIndexSchema
   primitives: RegistryItemIndexSchema
@@ -31,7 +34,7 @@ interface CategoryMap {
   nodes: RegistryItemIndexSchema
 }
 
-const PLANS = {
+export const PLANS = {
   free: "Free",
   paid: "Paid",
   // Future plans:
@@ -113,7 +116,7 @@ function clearPromptLines(lines: number) {
 /**
  * Categorizes registry items by type
  */
-const categorizeRegistryItems = (
+export const categorizeRegistryItems = (
   registryIndex: RegistryItemIndexSchema
 ): CategoryMap => {
   return {
@@ -358,23 +361,39 @@ export async function promptForRegistryComponents(
 export const add = new Command()
   .name("add")
   .description("add Tiptap components and templates to your project")
-  .argument("[components...]", "the components to add")
+  .argument(
+    "[components...]",
+    "the components to add, optionally pinned as name@version or name@range"
+  )
   .option("-o, --overwrite", "overwrite existing files.", false)
   .option(
     "-c, --cwd <cwd>",
     "the working directory. Defaults to the current directory.",
     process.cwd()
   )
-  .option("-p, --path <path>", "the path to add the component to.")
+  .option(
+    "-p, --path <path>",
+    "the directory to add the components to. Their dependencies keep their default location."
+  )
   .option("-s, --silent", "mute output.", false)
+  .option("--dry-run", "show what would be installed without writing.", false)
+  .option("--json", "print the dry-run plan as JSON. Implies --dry-run.", false)
   .action(async (components, opts) => {
     try {
       const options = addOptionsSchema.parse({
+        ...opts,
         components,
         cwd: path.resolve(opts.cwd),
-        ...opts,
       })
 
+      if (options.json) {
+        options.dryRun = true
+
+        if (!options.components?.length) {
+          throw new Error("Pass the components to plan when using --json.")
+        }
+      }
+
       if (!options.components?.length) {
         options.components = await promptForRegistryComponents(options)
       }
@@ -395,6 +414,16 @@ export const add = new Command()
         throw new Error(`Failed to read config at ${colors.blue(options.cwd)}.`)
       }
 
+      if (options.dryRun) {
+        const plan = await planComponents(options.components, config, options)
+        if (!plan) {
+          throw new Error("Failed to fetch components from registry.")
+        }
+
+        printPlan(plan, options)
+        return
+      }
+
       await addComponents(options.components, config, options)
     } catch (error) {
       logger.break()
@@ -2,7 +2,14 @@ import { Command } from "commander"
 import { execa } from "execa"
 import { z } from "zod"
 import { confirm, input, password as passwordPrompt } from "@inquirer/prompts"
-import { authenticateUser, checkAuthStatus } from "@/src/utils/auth"
+import {
+  AUTH_TOKEN_ENV,
+  authenticateUser,
+  checkAuthStatus,
+  getAuthTokenSource,
+  isTokenExpiringSoon,
+  removeAuthToken,
+} from "@/src/utils/auth"
 import { colors } from "@/src/utils/colors"
 import { handleError } from "@/src/utils/handle-error"
 import { logger } from "@/src/utils/logger"
@@ -225,21 +232,82 @@ async function handleStatusCheck(cwd: string) {
   const packageManager = await getPackageManager(cwd)
   const status = await checkAuthStatus(packageManager, cwd)
 
+  if (status.source) {
+    logger.info(`Token source: ${colors.blue(status.source)}`)
+  }
+
+  if (status.expired) {
+    logger.warn(
+      `The token for ${colors.blue(
+        status.user ?? "unknown user"
+      )} expired on ${formatExpiry(status.expires)}.`
+    )
+    logger.info("Run `tiptap auth login` to renew it")
+    return
+  }
+
   if (status.authenticated) {
     logger.success(
       `Authenticated as ${colors.blue(status.user ?? "unknown user")}`
     )
     logger.info(`Account type: ${colors.blue(status.plan || "Free")}`)
-    logger.info(`Token expires: ${colors.blue(status.expires || "Never")}`)
+    logger.info(
+      `Token expires: ${colors.blue(
+        status.expires ? formatExpiry(status.expires) : "Never"
+      )}`
+    )
+    if (isTokenExpiringSoon(status.expires)) {
+      logger.warn(
+        "Your token expires soon. Run `tiptap auth login` to renew it"
+      )
+    }
+  } else if (status.source) {
+    logger.error("The registry rejected this token")
+    logger.info("Run `tiptap auth login` to get a new one")
   } else {
     logger.info("Not authenticated with Tiptap registry")
-    logger.info("Run `tiptap auth login` to authenticate")
+    logger.info(
+      `Run \`tiptap auth login\` to authenticate, or set ${AUTH_TOKEN_ENV} in CI`
+    )
+  }
+}
+
+/**
+ * Handle removing the auth token
+ */
+async function handleLogout(cwd: string) {
+  const packageManager = await getPackageManager(cwd)
+  const removed = await removeAuthToken(packageManager, cwd)
+
+  if (removed.length) {
+    logger.success("Logged out of the Tiptap registry")
+    for (const location of removed) {
+      logger.log(colors.gray(`  Removed token from ${location}`))
+    }
   }
+
+  const remaining = await getAuthTokenSource(packageManager, cwd)
+  if (remaining) {
+    logger.warn(
+      `A token is still provided by ${colors.blue(
+        remaining.source
+      )}. Remove it there to log out completely.`
+    )
+  } else if (!removed.length) {
+    logger.info("No Tiptap registry token found. You are already logged out.")
+  }
+}
+
+function formatExpiry(expires?: string) {
+  const date = expires ? new Date(expires) : null
+  return date && !Number.isNaN(date.getTime())
+    ? date.toLocaleString()
+    : (expires ?? "unknown")
 }
 
 // Command definitions
 export const login = new Command()
-  .command("login")
+  .name("login")
   .description("log in to your Tiptap registry account")
   .option("-e, --email <email>", "your Tiptap registry email")
   .option("-p, --password <password>", "your Tiptap registry password")
@@ -263,7 +331,7 @@ export const login = new Command()
   })
 
 export const status = new Command()
-  .command("status")
+  .name("status")
   .description("check your Tiptap registry authentication status")
   .option(
     "-c, --cwd <cwd>",
@@ -278,3 +346,27 @@ export const status = new Command()
       handleError(error)
     }
   })
+
+export const logout = new Command()
+  .name("logout")
+  .description("remove your Tiptap registry token from this machine")
+  .option(
+    "-c, --cwd <cwd>",
+    "the working directory. Defaults to the current directory.",
+    process.cwd()
+  )
+  .action(async (options) => {
+    try {
+      const opts = authOptionsSchema.parse(options)
+      await handleLogout(opts.cwd)
+    } catch (error) {
+      handleError(error)
+    }
+  })
+
+export const auth = new Command()
+  .name("auth")
+  .description("manage your Tiptap registry authentication")
+  .addCommand(login)
+  .addCommand(status)
+  .addCommand(logout)
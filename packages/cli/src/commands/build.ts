@@ -0,0 +1,115 @@
+import { existsSync, promises as fs } from "fs"
+import path from "path"
+import { Command } from "commander"
+import semver from "semver"
+import { z } from "zod"
+import { buildRegistry, writeRegistry } from "@/src/utils/build-registry"
+import { colors } from "@/src/utils/colors"
+import { getPackageInfo } from "@/src/utils/get-package-info"
+import { handleError } from "@/src/utils/handle-error"
+import { logger } from "@/src/utils/logger"
+import { spinner } from "@/src/utils/spinner"
+
+const DEFAULT_VERSION = "1.0.0"
+
+export const buildOptionsSchema = z.object({
+  cwd: z.string(),
+  source: z.string(),
+  output: z.string(),
+  privateKey: z.string().optional(),
+  namespace: z
+    .string()
+    .regex(/^@[^/]+$/, "The namespace must look like @acme.")
+    .optional(),
+  version: z.string().refine((version) => !!semver.valid(version), {
+    message: "The version must be a semver version, e.g. 1.2.0.",
+  }),
+  silent: z.boolean(),
+})
+
+export const build = new Command()
+  .name("build")
+  .description("build a registry from a local component source tree")
+  .argument(
+    "[source]",
+    'the directory the "@/" alias points to, holding components, hooks and lib.',
+    "./src"
+  )
+  .option(
+    "-o, --output <output>",
+    "where to write index.json and the item files.",
+    "./public/r"
+  )
+  .option(
+    "--private-key <file>",
+    "a PEM ed25519 private key to sign index.json with."
+  )
+  .option(
+    "-n, --namespace <namespace>",
+    "the registry namespace items use to depend on each other, e.g. @acme."
+  )
+  .option(
+    "--item-version <version>",
+    "the version to publish the items as. Defaults to the version in package.json."
+  )
+  .option(
+    "-c, --cwd <cwd>",
+    "the working directory. Defaults to the current directory.",
+    process.cwd()
+  )
+  .option("-s, --silent", "mute output.", false)
+  .action(async (source, opts) => {
+    try {
+      const cwd = path.resolve(opts.cwd)
+      const options = buildOptionsSchema.parse({
+        cwd,
+        source: path.resolve(cwd, source),
+        output: path.resolve(cwd, opts.output),
+        privateKey: opts.privateKey
+          ? path.resolve(cwd, opts.privateKey)
+          : undefined,
+        namespace: opts.namespace,
+        version:
+          opts.itemVersion ??
+          getPackageInfo(cwd, false)?.version ??
+          DEFAULT_VERSION,
+        silent: opts.silent,
+      })
+
+      if (!existsSync(path.join(options.source, "components"))) {
+        logger.error(
+          `No components directory found in ${colors.blue(
+            options.source
+          )}. Pass the directory the "@/" alias points to.`
+        )
+        process.exit(1)
+      }
+
+      const buildSpinner = spinner("Building registry.", {
+        silent: options.silent,
+      })?.start()
+      const { items, warnings } = await buildRegistry(options.source, {
+        namespace: options.namespace,
+        version: options.version,
+      })
+      await writeRegistry(items, options.output, {
+        privateKey: options.privateKey
+          ? await fs.readFile(options.privateKey, "utf-8")
+          : undefined,
+      })
+      buildSpinner?.succeed(
+        `Built ${items.length} registry items at ${options.version} to ${colors.blue(
+          path.relative(options.cwd, options.output) || "."
+        )}.`
+      )
+
+      if (!options.silent) {
+        for (const warning of warnings) {
+          logger.warn(warning)
+        }
+      }
+    } catch (error) {
+      logger.break()
+      handleError(error)
+    }
+  })
@@ -0,0 +1,296 @@
+import { existsSync, promises as fs } from "fs"
+import path from "path"
+import { Command } from "commander"
+import { structuredPatch } from "diff"
+import { z } from "zod"
+import {
+  getWorkspaceTargetConfig,
+  isWorkspaceInstall,
+} from "@/src/utils/add-components"
+import { colors } from "@/src/utils/colors"
+import {
+  getConfig,
+  getWorkspaceConfig,
+  type Config,
+} from "@/src/utils/get-config"
+import { getInstalledItems } from "@/src/utils/get-installed-items"
+import { getProjectInfo, type ProjectInfo } from "@/src/utils/get-project-info"
+import { handleError } from "@/src/utils/handle-error"
+import { logger } from "@/src/utils/logger"
+import { readLockfile, type LockfileItem } from "@/src/utils/lockfile"
+import {
+  fetchRegistry,
+  getRegistryItemUrl,
+  walkRegistryDependencies,
+} from "@/src/utils/registry"
+import {
+  registryItemSchema,
+  type RegistryItem,
+} from "@/src/utils/registry/schema"
+import { parseItemSpecifier } from "@/src/utils/registry/versions"
+import { spinner } from "@/src/utils/spinner"
+import {
+  getMovedModules,
+  getNormalizedFileContent,
+  resolveTargetFilePath,
+  transformFileContent,
+} from "@/src/utils/updaters/update-files"
+
+export const diffOptionsSchema = z.object({
+  components: z.array(z.string()).optional(),
+  cwd: z.string(),
+})
+
+type FileDiff = {
+  filePath: string
+  patch: ReturnType<typeof structuredPatch>
+}
+
+/**
+ * Where an item's files are installed: the targets recorded in the lockfile,
+ * or the default targets for files installed before it existed
+ */
+function getInstalledTargets(
+  item: RegistryItem,
+  lockedItem: LockfileItem | undefined,
+  config: Config,
+  itemConfig: Config,
+  projectInfo: ProjectInfo | null
+) {
+  const files = item.files ?? []
+  const lockedTargets = new Map(
+    (lockedItem?.files ?? []).map((file) => [
+      file.path,
+      path.resolve(config.resolvedPaths.cwd, file.target),
+    ])
+  )
+
+  const targets = new Map<string, { target: string; moved: boolean }>()
+  for (const file of files) {
+    const defaultTarget = resolveTargetFilePath(
+      file,
+      files,
+      itemConfig,
+      projectInfo
+    )
+    const target = lockedTargets.get(file.path) ?? defaultTarget
+    if (target) {
+      targets.set(file.path, { target, moved: target !== defaultTarget })
+    }
+  }
+
+  return targets
+}
+
+/**
+ * Compares every file of a registry item against the installed copy
+ */
+async function diffRegistryItem(
+  item: RegistryItem,
+  targets: Map<string, { target: string }>,
+  config: Config,
+  itemConfig: Config,
+  movedModules: Map<string, string>
+): Promise<FileDiff[]> {
+  const changes: FileDiff[] = []
+
+  for (const file of item.files ?? []) {
+    if (!file.content) {
+      continue
+    }
+
+    const filePath = targets.get(file.path)?.target
+
+    // Files that were never installed (or were removed) are not drift.
+    if (!filePath || !existsSync(filePath)) {
+      continue
+    }
+
+    const [localContent, registryContent] = await Promise.all([
+      fs.readFile(filePath, "utf-8").then(getNormalizedFileContent),
+      transformFileContent(file, itemConfig, {
+        targetPath: filePath,
+        movedModules,
+      }).then(getNormalizedFileContent),
+    ])
+
+    if (localContent === registryContent) {
+      continue
+    }
+
+    const relativePath = path.relative(config.resolvedPaths.cwd, filePath)
+    changes.push({
+      filePath: relativePath,
+      patch: structuredPatch(
+        `a/${relativePath}`,
+        `b/${relativePath}`,
+        `${localContent}\n`,
+        `${registryContent}\n`
+      ),
+    })
+  }
+
+  return changes
+}
+
+/**
+ * Prints a unified diff with local lines as "-" and registry lines as "+"
+ */
+function printPatch({ patch }: FileDiff) {
+  logger.log(colors.white(`--- ${patch.oldFileName}`))
+  logger.log(colors.white(`+++ ${patch.newFileName}`))
+
+  for (const hunk of patch.hunks) {
+    logger.log(
+      colors.cyan(
+        `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`
+      )
+    )
+
+    for (const line of hunk.lines) {
+      if (line.startsWith("+")) {
+        logger.log(colors.green(line))
+      } else if (line.startsWith("-")) {
+        logger.log(colors.red(line))
+      } else {
+        logger.log(line)
+      }
+    }
+  }
+}
+
+export const diff = new Command()
+  .name("diff")
+  .description("check installed components for changes against the registry")
+  .argument("[components...]", "the components to check")
+  .option(
+    "-c, --cwd <cwd>",
+    "the working directory. Defaults to the current directory.",
+    process.cwd()
+  )
+  .action(async (components, opts) => {
+    try {
+      const options = diffOptionsSchema.parse({
+        components,
+        cwd: path.resolve(opts.cwd),
+      })
+
+      if (!existsSync(path.resolve(options.cwd, "package.json"))) {
+        logger.error(
+          `No package.json found at ${colors.blue(options.cwd)}. Run this command in your project directory.`
+        )
+        process.exit(1)
+      }
+
+      const config = await getConfig(options.cwd)
+
+      const registrySpinner = spinner(`Checking registry.`).start()
+
+      const lockfile = await readLockfile(config.resolvedPaths.cwd)
+      const names = options.components?.length
+        ? options.components.map((name) => parseItemSpecifier(name).name)
+        : (await getInstalledItems(config)).map((item) => item.name)
+
+      if (!names.length) {
+        registrySpinner.info("No installed components found.")
+        return
+      }
+
+      // Dependencies are fetched too, as the compared files import them from
+      // wherever they were installed.
+      const itemNames = await walkRegistryDependencies(
+        names,
+        async (name) => lockfile?.items[name]?.registryDependencies ?? []
+      )
+
+      // Compare against the installed versions, not the latest ones.
+      const result = await fetchRegistry(
+        itemNames.map((name) =>
+          getRegistryItemUrl(name, config, lockfile?.items[name]?.version)
+        ),
+        config
+      )
+      const payload = z.array(registryItemSchema).parse(result)
+
+      const workspaceConfig = await getWorkspaceConfig(config)
+      const projectInfos = new Map<string, ProjectInfo | null>()
+
+      const installed = []
+      const movedTargets = new Map<string, string>()
+      for (const [index, item] of payload.entries()) {
+        const name = itemNames[index]
+        const itemConfig = isWorkspaceInstall(config, workspaceConfig)
+          ? getWorkspaceTargetConfig(item, config, workspaceConfig)
+          : config
+
+        const itemCwd = itemConfig.resolvedPaths.cwd
+        if (!projectInfos.has(itemCwd)) {
+          projectInfos.set(itemCwd, await getProjectInfo(itemCwd))
+        }
+
+        const targets = getInstalledTargets(
+          item,
+          lockfile?.items[name],
+          config,
+          itemConfig,
+          projectInfos.get(itemCwd) ?? null
+        )
+        for (const [filePath, { target, moved }] of targets) {
+          if (moved) {
+            movedTargets.set(filePath, target)
+          }
+        }
+
+        installed.push({ name, item, itemConfig, targets })
+      }
+
+      const movedModules = getMovedModules(movedTargets)
+      const changes = new Map<string, FileDiff[]>()
+      for (const { name, item, itemConfig, targets } of installed) {
+        if (!names.includes(name)) {
+          continue
+        }
+
+        const itemChanges = await diffRegistryItem(
+          item,
+          targets,
+          config,
+          itemConfig,
+          movedModules
+        )
+        if (itemChanges.length) {
+          changes.set(name, itemChanges)
+        }
+      }
+
+      registrySpinner.stopAndPersist({
+        symbol: colors.cyan("✔"),
+      })
+
+      if (!changes.size) {
+        logger.success(
+          "No changes found. Installed components match the registry."
+        )
+        return
+      }
+
+      for (const [name, itemChanges] of changes) {
+        logger.break()
+        logger.info(
+          `${name} (${itemChanges.length} ${
+            itemChanges.length === 1 ? "file" : "files"
+          } changed)`
+        )
+
+        for (const change of itemChanges) {
+          logger.break()
+          printPatch(change)
+        }
+      }
+
+      logger.break()
+    } catch (error) {
+      logger.break()
+      handleError(error)
+    }
+  })
@@ -0,0 +1,122 @@
+import path from "path"
+import { Command } from "commander"
+import { z } from "zod"
+import { colors } from "@/src/utils/colors"
+import { runDoctorChecks, type DoctorCheck } from "@/src/utils/doctor"
+import { getPackageManager } from "@/src/utils/get-package-manager"
+import { getProjectInfo } from "@/src/utils/get-project-info"
+import { handleError } from "@/src/utils/handle-error"
+import { LOCKFILE_NAME, readLockfile } from "@/src/utils/lockfile"
+import { logger } from "@/src/utils/logger"
+import { spinner } from "@/src/utils/spinner"
+
+export const doctorOptionsSchema = z.object({
+  cwd: z.string(),
+  json: z.boolean(),
+})
+
+export const doctor = new Command()
+  .name("doctor")
+  .alias("info")
+  .description("check your project setup and suggest fixes")
+  .option("--json", "print the findings as JSON.", false)
+  .option(
+    "-c, --cwd <cwd>",
+    "the working directory. Defaults to the current directory.",
+    process.cwd()
+  )
+  .action(async (opts) => {
+    try {
+      const options = doctorOptionsSchema.parse({
+        cwd: path.resolve(opts.cwd),
+        json: opts.json,
+      })
+
+      const doctorSpinner = spinner("Checking your project.", {
+        silent: options.json,
+      })?.start()
+      const checks = await runDoctorChecks(options.cwd)
+      doctorSpinner?.stop()
+
+      const failed = checks.some((check) =>
+        check.findings.some((finding) => finding.level === "error")
+      )
+
+      if (options.json) {
+        process.stdout.write(`${JSON.stringify(checks, null, 2)}\n`)
+      } else {
+        await printProjectSummary(options.cwd)
+        printChecks(checks, failed)
+      }
+
+      if (failed) {
+        process.exitCode = 1
+      }
+    } catch (error) {
+      logger.break()
+      handleError(error)
+    }
+  })
+
+async function printProjectSummary(cwd: string) {
+  const [projectInfo, packageManager, lockfile] = await Promise.all([
+    getProjectInfo(cwd),
+    getPackageManager(cwd),
+    readLockfile(cwd),
+  ])
+
+  logger.break()
+  logger.log(
+    `Framework: ${colors.cyan(projectInfo?.framework.label ?? "unknown")}`
+  )
+  logger.log(`Package manager: ${colors.cyan(packageManager)}`)
+  if (!lockfile) {
+    logger.log(
+      `Installed items: ${colors.gray(
+        `no ${LOCKFILE_NAME} yet, it is written by the next \`add\``
+      )}`
+    )
+    return
+  }
+
+  const items = Object.entries(lockfile.items)
+  logger.log(
+    `Installed items: ${colors.cyan(String(items.length))} ${colors.gray(
+      `(${LOCKFILE_NAME})`
+    )}`
+  )
+  for (const [name, item] of items) {
+    logger.log(
+      `  - ${name}${item.version ? ` ${colors.cyan(item.version)}` : ""} ${colors.gray(
+        `(${item.files.length} ${item.files.length === 1 ? "file" : "files"})`
+      )}`
+    )
+  }
+}
+
+function printChecks(checks: DoctorCheck[], failed: boolean) {
+  logger.break()
+  for (const check of checks) {
+    if (!check.findings.length) {
+      logger.log(`${colors.green("✔")} ${check.title}`)
+      continue
+    }
+
+    const hasError = check.findings.some((finding) => finding.level === "error")
+    logger.log(
+      `${hasError ? colors.red("✖") : colors.yellow("!")} ${check.title}`
+    )
+    for (const finding of check.findings) {
+      logger.log(`    ${finding.message}`)
+      logger.log(colors.gray(`    Fix: ${finding.fix}`))
+    }
+  }
+
+  logger.break()
+  if (failed) {
+    logger.error("Some checks failed. Apply the fixes above and run again.")
+  } else {
+    logger.success("Your project is ready for Tiptap components.")
+  }
+  logger.break()
+}
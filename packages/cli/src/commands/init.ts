@@ -1,6 +1,6 @@
 import path from "path"
 import { Command } from "commander"
-import { confirm } from "@inquirer/prompts"
+import { confirm, input } from "@inquirer/prompts"
 import { z } from "zod"
 
 import { preFlightInit } from "@/src/preflights/preflight-init"
@@ -11,6 +11,7 @@ import { colors } from "@/src/utils/colors"
 import { handleError } from "@/src/utils/handle-error"
 import { logger } from "@/src/utils/logger"
 import { addComponents } from "@/src/utils/add-components"
+import { planComponents, printPlan } from "@/src/utils/plan-components"
 import { getProjectConfig, getProjectInfo } from "@/src/utils/get-project-info"
 import {
   DEFAULT_COMPONENTS,
@@ -25,10 +26,14 @@ import {
   DEFAULT_TIPTAP_UI_PRIMITIVES,
   DEFAULT_TIPTAP_UI_UTILS,
   getConfig,
+  getRawConfig,
   rawConfigSchema,
   resolveConfigPaths,
+  writeConfig,
   type Config,
+  type RawConfig,
 } from "@/src/utils/get-config"
+import { spinner } from "@/src/utils/spinner"
 import chalk from "chalk"
 
 export const initOptionsSchema = z.object({
@@ -36,6 +41,8 @@ export const initOptionsSchema = z.object({
   components: z.array(z.string()).optional(),
   silent: z.boolean(),
   isNewProject: z.boolean(),
+  dryRun: z.boolean().default(false),
+  json: z.boolean().default(false),
   srcDir: z.boolean().optional(),
   framework: z
     .string()
@@ -49,6 +56,20 @@ type InitOptions = z.infer<typeof initOptionsSchema> & {
   skipPreflight?: boolean
 }
 
+const DEFAULT_ALIASES: Required<RawConfig["aliases"]> = {
+  components: DEFAULT_COMPONENTS,
+  contexts: DEFAULT_CONTEXTS,
+  hooks: DEFAULT_HOOKS,
+  tiptapIcons: DEFAULT_TIPTAP_ICONS,
+  lib: DEFAULT_LIB,
+  tiptapExtensions: DEFAULT_TIPTAP_EXTENSIONS,
+  tiptapNodes: DEFAULT_TIPTAP_NODES,
+  tiptapUi: DEFAULT_TIPTAP_UI,
+  tiptapUiPrimitives: DEFAULT_TIPTAP_UI_PRIMITIVES,
+  tiptapUiUtils: DEFAULT_TIPTAP_UI_UTILS,
+  styles: DEFAULT_STYLES,
+}
+
 /**
  * Creates a themed confirmation prompt with consistent styling
  */
@@ -65,6 +86,25 @@ const createThemedConfirm = (message: string, defaultValue: boolean = true) => {
   })
 }
 
+/**
+ * Creates a themed input prompt with consistent styling
+ */
+const createThemedInput = (message: string, defaultValue: string) => {
+  return input({
+    message,
+    default: defaultValue,
+    required: true,
+    validate: (value: string) =>
+      value.endsWith("/") ? "Leave out the trailing slash." : true,
+    theme: {
+      prefix: {
+        done: colors.cyan("✔"),
+        idle: "?",
+      },
+    },
+  })
+}
+
 /**
  * Initialize the CLI command
  */
@@ -84,6 +124,8 @@ export const init = new Command()
     "use the src directory when creating a new project (specific to next).",
     false
   )
+  .option("--dry-run", "show what would be installed without writing.", false)
+  .option("--json", "print the dry-run plan as JSON. Implies --dry-run.", false)
   .action(async (components, opts) => {
     try {
       const options = initOptionsSchema.parse({
@@ -92,7 +134,18 @@ export const init = new Command()
         components,
         ...opts,
       })
+
+      if (options.json) {
+        options.dryRun = true
+        options.silent = true
+      }
+
       await runInit(options)
+
+      if (options.dryRun) {
+        return
+      }
+
       logger.log(
         chalk.bold(
           `${colors.cyan("Success!")} Project initialization completed.`
@@ -109,7 +162,7 @@ export const init = new Command()
  * Main initialization function
  */
 export async function runInit(options: InitOptions) {
-  const { cwd, skipPreflight, components, silent } = options
+  const { cwd, skipPreflight, components, silent, dryRun } = options
   let projectInfo
   let newProjectFramework
   let updatedOptions = { ...options }
@@ -120,6 +173,12 @@ export async function runInit(options: InitOptions) {
     const isMissingDirOrEmptyProject =
       preflight.errors[ERRORS.MISSING_DIR_OR_EMPTY_PROJECT]
 
+    if (isMissingDirOrEmptyProject && dryRun) {
+      throw new Error(
+        `No project found at ${colors.blue(cwd)}. A dry run cannot create a new project.`
+      )
+    }
+
     if (isMissingDirOrEmptyProject) {
       const { projectPath, framework } = await createProject(options)
       if (!projectPath) {
@@ -146,12 +205,34 @@ export async function runInit(options: InitOptions) {
 
   // Get or create configuration
   const projectConfig = await getProjectConfig(updatedOptions.cwd, projectInfo)
-  const config = projectConfig
-    ? await promptForMinimalConfig(projectConfig)
-    : await promptForConfig(await getConfig(updatedOptions.cwd))
+  let config = await promptForMinimalConfig(
+    projectConfig ?? (await getConfig(updatedOptions.cwd))
+  )
+
+  if (!dryRun) {
+    const existingConfig = await getRawConfig(updatedOptions.cwd)
+    const updatedConfig = existingConfig
+      ? await promptForExistingConfig(existingConfig, projectConfig)
+      : rawConfigSchema.parse(await promptForConfig(projectConfig))
+
+    if (updatedConfig) {
+      const configSpinner = spinner(`Writing components.json.`, {
+        silent,
+      })?.start()
+      await writeConfig(updatedOptions.cwd, updatedConfig)
+      configSpinner?.stopAndPersist({
+        symbol: colors.cyan("✔"),
+      })
+      config = updatedConfig
+    }
+  }
 
   // Handle component selection if none specified
   let selectedComponents = components || []
+  if (!selectedComponents.length && options.json) {
+    throw new Error("Pass the components to plan when using --json.")
+  }
+
   if (!selectedComponents.length) {
     const shouldAddComponents = await createThemedConfirm(
       "Would you like to add a template or UI components to your project?"
@@ -180,6 +261,16 @@ export async function runInit(options: InitOptions) {
 
   // Add components
   const fullConfig = await resolveConfigPaths(updatedOptions.cwd, config)
+
+  if (dryRun) {
+    const plan = await planComponents(selectedComponents, fullConfig)
+    if (!plan) {
+      throw new Error("Failed to fetch components from registry.")
+    }
+
+    printPlan({ ...plan, config }, options)
+    return fullConfig
+  }
   await addComponents(selectedComponents, fullConfig, {
     overwrite: false,
     silent,
@@ -191,9 +282,12 @@ export async function runInit(options: InitOptions) {
 }
 
 /**
- * Prompt for full configuration
+ * Prompt for full configuration. Only the answers are returned, without
+ * defaults for the settings that are not asked about.
  */
-async function promptForConfig(defaultConfig: Config | null = null) {
+async function promptForConfig(
+  defaultConfig: Config | null = null
+): Promise<Pick<RawConfig, "rsc" | "tsx" | "style" | "aliases">> {
   logger.info("")
 
   const tsx = await createThemedConfirm(
@@ -206,32 +300,72 @@ async function promptForConfig(defaultConfig: Config | null = null) {
     defaultConfig?.rsc ?? true
   )
 
-  return rawConfigSchema.parse({
+  const compileCss = await createThemedConfirm(
+    `Would you like to install styles as plain ${colors.cyan(
+      "CSS"
+    )} instead of SCSS?`,
+    defaultConfig?.style === "css"
+  )
+
+  const aliases = { ...(defaultConfig?.aliases ?? DEFAULT_ALIASES) }
+  const customizeAliases = await createThemedConfirm(
+    `Would you like to customize the ${colors.cyan("import aliases")}?`,
+    false
+  )
+
+  if (customizeAliases) {
+    for (const key of Object.keys(rawConfigSchema.shape.aliases.shape) as Array<
+      keyof RawConfig["aliases"]
+    >) {
+      aliases[key] = await createThemedInput(
+        `Import alias for ${colors.cyan(key)}:`,
+        aliases[key] ?? DEFAULT_ALIASES[key]
+      )
+    }
+  }
+
+  return {
     rsc,
     tsx,
+    style: compileCss ? "css" : "scss",
+    aliases,
+  }
+}
+
+/**
+ * Offers to update an existing components.json. New answers are merged into
+ * it, so registries and other settings are kept. Returns null when declined.
+ */
+async function promptForExistingConfig(
+  existingConfig: RawConfig,
+  defaultConfig: Config | null
+) {
+  const shouldMerge = await createThemedConfirm(
+    `A ${colors.cyan(
+      "components.json"
+    )} already exists. Would you like to update it?`,
+    false
+  )
+
+  if (!shouldMerge) {
+    return null
+  }
+
+  const answers = await promptForConfig(defaultConfig)
+  return rawConfigSchema.parse({
+    ...existingConfig,
+    ...answers,
     aliases: {
-      components: DEFAULT_COMPONENTS,
-      contexts: DEFAULT_CONTEXTS,
-      hooks: DEFAULT_HOOKS,
-      tiptapIcons: DEFAULT_TIPTAP_ICONS,
-      lib: DEFAULT_LIB,
-      tiptapExtensions: DEFAULT_TIPTAP_EXTENSIONS,
-      tiptapNodes: DEFAULT_TIPTAP_NODES,
-      tiptapUi: DEFAULT_TIPTAP_UI,
-      tiptapUiPrimitives: DEFAULT_TIPTAP_UI_PRIMITIVES,
-      tiptapUiUtils: DEFAULT_TIPTAP_UI_UTILS,
-      styles: DEFAULT_STYLES,
+      ...existingConfig.aliases,
+      ...answers.aliases,
     },
   })
 }
 
 /**
- * Prompt for minimal configuration from existing config
+ * Prompt for minimal configuration from existing config. Every setting is
+ * kept, only the resolved paths are dropped.
  */
 async function promptForMinimalConfig(defaultConfig: Config) {
-  return rawConfigSchema.parse({
-    rsc: defaultConfig?.rsc,
-    tsx: defaultConfig?.tsx,
-    aliases: defaultConfig?.aliases,
-  })
+  return rawConfigSchema.strip().parse(defaultConfig)
 }
@@ -0,0 +1,182 @@
+import { Command } from "commander"
+import { z } from "zod"
+import {
+  categorizeRegistryItems,
+  PLANS,
+  type CategoryMap,
+} from "@/src/commands/add"
+import { colors } from "@/src/utils/colors"
+import { toReadableName } from "@/src/utils/common"
+import { handleError } from "@/src/utils/handle-error"
+import { logger } from "@/src/utils/logger"
+import { getRegistryIndex } from "@/src/utils/registry"
+import {
+  planSchema,
+  registryItemTypeSchema,
+  type RegistryItemIndexSchema,
+} from "@/src/utils/registry/schema"
+
+export const listOptionsSchema = z.object({
+  query: z.string().optional(),
+  type: registryItemTypeSchema.optional(),
+  plan: planSchema.optional(),
+  json: z.boolean(),
+})
+
+type ListOptions = z.infer<typeof listOptionsSchema>
+
+type ListCategory = keyof CategoryMap | "other"
+
+const CATEGORY_TITLES: Record<ListCategory, string> = {
+  templates: "TEMPLATES",
+  ui: "UI COMPONENTS",
+  primitives: "PRIMITIVES",
+  uiUtils: "UI UTILS",
+  nodes: "NODE COMPONENTS",
+  other: "OTHER",
+}
+
+/**
+ * Accepts both "ui-primitive" and "registry:ui-primitive"
+ */
+function parseListOptions(opts: Record<string, unknown>, query?: string) {
+  return listOptionsSchema.parse({
+    query,
+    type:
+      typeof opts.type === "string" && !opts.type.startsWith("registry:")
+        ? `registry:${opts.type}`
+        : opts.type,
+    plan: opts.plan,
+    json: opts.json,
+  })
+}
+
+function matchesQuery(
+  item: RegistryItemIndexSchema[number],
+  query: string | undefined
+) {
+  if (!query) {
+    return true
+  }
+
+  const needle = query.toLowerCase()
+  return [item.name, toReadableName(item.name), item.description ?? ""].some(
+    (value) => value.toLowerCase().includes(needle)
+  )
+}
+
+/**
+ * Groups items like the add prompt does. Types the prompt does not offer,
+ * such as hooks and libs, are listed under "other".
+ */
+function getListCategories(items: RegistryItemIndexSchema) {
+  const categories = categorizeRegistryItems(items)
+  const categorized = new Set(Object.values(categories).flat())
+
+  return [
+    ...Object.entries(categories),
+    ["other", items.filter((item) => !categorized.has(item))],
+  ] as [ListCategory, RegistryItemIndexSchema][]
+}
+
+export async function listRegistryItems(options: ListOptions) {
+  const registryIndex = await getRegistryIndex()
+  if (!registryIndex) {
+    throw new Error("Failed to fetch registry index.")
+  }
+
+  const items = registryIndex.filter(
+    (item) =>
+      (!options.type || item.type === options.type) &&
+      (!options.plan || (item.plan ?? "free") === options.plan) &&
+      matchesQuery(item, options.query)
+  )
+  const categories = getListCategories(items)
+
+  if (options.json) {
+    const output = Object.fromEntries(
+      categories.map(([category, entries]) => [
+        category,
+        entries.map((item) => ({
+          name: item.name,
+          type: item.type,
+          plan: item.plan ?? "free",
+          description: item.description ?? null,
+          registryDependencies: item.registryDependencies ?? [],
+        })),
+      ])
+    )
+    process.stdout.write(`${JSON.stringify(output, null, 2)}\n`)
+    return
+  }
+
+  const sections = categories.filter(([, entries]) => entries.length)
+
+  if (!sections.length) {
+    logger.info(
+      options.query
+        ? `No registry items match "${options.query}".`
+        : "No registry items found."
+    )
+    return
+  }
+
+  logger.break()
+  for (const [category, entries] of sections) {
+    logger.log(colors.gray(CATEGORY_TITLES[category]))
+
+    for (const item of entries) {
+      const planLabel = PLANS[item.plan || "free"]
+      logger.log(`  ${colors.cyan(item.name)} ${colors.gray(`(${planLabel})`)}`)
+
+      if (item.description) {
+        logger.log(`    ${item.description}`)
+      }
+
+      if (item.registryDependencies?.length) {
+        logger.log(
+          colors.gray(`    Requires: ${item.registryDependencies.join(", ")}`)
+        )
+      }
+    }
+
+    logger.break()
+  }
+}
+
+export const list = new Command()
+  .name("list")
+  .description("list the components and templates in the registry")
+  .option(
+    "-t, --type <type>",
+    "only show items of a type, e.g. ui, ui-primitive, node or template."
+  )
+  .option("-p, --plan <plan>", "only show items of a plan. (free, paid)")
+  .option("--json", "print the items as JSON.", false)
+  .action(async (opts) => {
+    try {
+      await listRegistryItems(parseListOptions(opts))
+    } catch (error) {
+      logger.break()
+      handleError(error)
+    }
+  })
+
+export const search = new Command()
+  .name("search")
+  .description("search the registry by name and description")
+  .argument("<query>", "the text to search for")
+  .option(
+    "-t, --type <type>",
+    "only show items of a type, e.g. ui, ui-primitive, node or template."
+  )
+  .option("-p, --plan <plan>", "only show items of a plan. (free, paid)")
+  .option("--json", "print the items as JSON.", false)
+  .action(async (query, opts) => {
+    try {
+      await listRegistryItems(parseListOptions(opts, query))
+    } catch (error) {
+      logger.break()
+      handleError(error)
+    }
+  })
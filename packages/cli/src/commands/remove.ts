@@ -0,0 +1,199 @@
+import { existsSync } from "fs"
+import path from "path"
+import { Command } from "commander"
+import { confirm } from "@inquirer/prompts"
+import { z } from "zod"
+import { colors } from "@/src/utils/colors"
+import {
+  getWorkspaceTargetConfig,
+  isWorkspaceInstall,
+} from "@/src/utils/add-components"
+import { getConfig, getWorkspaceConfig } from "@/src/utils/get-config"
+import { handleError } from "@/src/utils/handle-error"
+import { LOCKFILE_NAME, readLockfile } from "@/src/utils/lockfile"
+import { logger } from "@/src/utils/logger"
+import {
+  getUnusedDependencies,
+  getWorkspaceDependencies,
+  planRemoval,
+  removeComponents,
+} from "@/src/utils/remove-components"
+import { spinner } from "@/src/utils/spinner"
+import { removeDependencies } from "@/src/utils/updaters/remove-dependencies"
+
+export const removeOptionsSchema = z.object({
+  components: z.array(z.string()),
+  cwd: z.string(),
+  yes: z.boolean(),
+  silent: z.boolean(),
+})
+
+/**
+ * Creates a themed confirmation prompt with consistent styling
+ */
+const createThemedConfirm = (message: string, defaultValue: boolean = true) => {
+  return confirm({
+    message,
+    default: defaultValue,
+    theme: {
+      prefix: {
+        done: colors.cyan("✔"),
+        idle: "?",
+      },
+    },
+  })
+}
+
+export const remove = new Command()
+  .name("remove")
+  .description(
+    "remove components and the dependencies no other component still needs"
+  )
+  .argument("<components...>", "the components to remove")
+  .option("-y, --yes", "skip confirmation prompts.", false)
+  .option(
+    "-c, --cwd <cwd>",
+    "the working directory. Defaults to the current directory.",
+    process.cwd()
+  )
+  .option("-s, --silent", "mute output.", false)
+  .action(async (components, opts) => {
+    try {
+      const options = removeOptionsSchema.parse({
+        components,
+        cwd: path.resolve(opts.cwd),
+        yes: opts.yes,
+        silent: opts.silent,
+      })
+
+      if (!existsSync(path.resolve(options.cwd, "package.json"))) {
+        logger.error(
+          `No package.json found at ${colors.blue(options.cwd)}. Run this command in your project directory.`
+        )
+        process.exit(1)
+      }
+
+      const config = await getConfig(options.cwd)
+      const lockfile = await readLockfile(config.resolvedPaths.cwd)
+
+      if (!lockfile) {
+        logger.error(
+          `No ${LOCKFILE_NAME} found. Re-run ${colors.cyan(
+            "tiptap add"
+          )} for your components to record what is installed.`
+        )
+        process.exit(1)
+      }
+
+      const unknown = options.components.filter((name) => !lockfile.items[name])
+      for (const name of unknown) {
+        logger.warn(`${name} is not installed. Skipping.`)
+      }
+
+      const plan = await planRemoval(
+        lockfile,
+        options.components.filter((name) => !unknown.includes(name))
+      )
+
+      for (const { name, requiredBy } of plan.retained) {
+        logger.warn(
+          `Keeping ${name}, it is still required by ${requiredBy.join(", ")}.`
+        )
+      }
+
+      if (!plan.items.length) {
+        logger.info("Nothing to remove.")
+        return
+      }
+
+      if (!options.silent) {
+        logger.info(`Components to remove: ${plan.items.join(", ")}`)
+        for (const file of plan.files) {
+          logger.log(`  - ${file}`)
+        }
+        logger.break()
+      }
+
+      if (
+        !options.yes &&
+        !(await createThemedConfirm(
+          `Remove ${plan.files.length} ${
+            plan.files.length === 1 ? "file" : "files"
+          }?`
+        ))
+      ) {
+        return
+      }
+
+      const { filesRemoved } = await removeComponents(plan, lockfile, config)
+
+      spinner(
+        `Removed ${filesRemoved.length} ${
+          filesRemoved.length === 1 ? "file" : "files"
+        }.`,
+        {
+          silent: options.silent,
+        }
+      )?.stopAndPersist({
+        symbol: colors.cyan("✔"),
+      })
+
+      // In a monorepo, packages are uninstalled from the workspace package
+      // the removed items were installed into.
+      const workspaceConfig = await getWorkspaceConfig(config)
+      const packages = isWorkspaceInstall(config, workspaceConfig)
+        ? getWorkspaceDependencies(plan, lockfile, (item) =>
+            getWorkspaceTargetConfig(item, config, workspaceConfig)
+          )
+        : [
+            {
+              config,
+              dependencies: [...plan.dependencies, ...plan.devDependencies],
+            },
+          ]
+      const removedFiles = plan.files.map((file) =>
+        path.resolve(config.resolvedPaths.cwd, file)
+      )
+
+      for (const workspacePackage of packages) {
+        const packageCwd = workspacePackage.config.resolvedPaths.cwd
+        const unusedDependencies = await getUnusedDependencies(
+          workspacePackage.dependencies,
+          removedFiles,
+          workspacePackage.config
+        )
+        if (!unusedDependencies.length) {
+          continue
+        }
+
+        if (
+          options.yes ||
+          (await createThemedConfirm(
+            `No remaining component uses ${unusedDependencies
+              .map((dependency) => colors.blue(dependency))
+              .join(", ")}. Uninstall ${
+              unusedDependencies.length === 1 ? "it" : "them"
+            }${
+              packageCwd === config.resolvedPaths.cwd
+                ? ""
+                : ` from ${colors.blue(
+                    path.relative(config.resolvedPaths.cwd, packageCwd)
+                  )}`
+            }?`,
+            false
+          ))
+        ) {
+          await removeDependencies(
+            unusedDependencies,
+            workspacePackage.config,
+            {
+              silent: options.silent,
+            }
+          )
+        }
+      }
+    } catch (error) {
+      logger.break()
+      handleError(error)
+    }
+  })
@@ -0,0 +1,81 @@
+import { existsSync } from "fs"
+import path from "path"
+import { Command } from "commander"
+import { z } from "zod"
+import { addComponents } from "@/src/utils/add-components"
+import { colors } from "@/src/utils/colors"
+import { getConfig } from "@/src/utils/get-config"
+import { getInstalledItems } from "@/src/utils/get-installed-items"
+import { handleError } from "@/src/utils/handle-error"
+import { logger } from "@/src/utils/logger"
+import { spinner } from "@/src/utils/spinner"
+
+export const updateOptionsSchema = z.object({
+  components: z.array(z.string()).optional(),
+  cwd: z.string(),
+  silent: z.boolean(),
+})
+
+export const update = new Command()
+  .name("update")
+  .description(
+    "update installed components, merging registry changes into your local edits"
+  )
+  .argument(
+    "[components...]",
+    "the components to update. Defaults to every installed component."
+  )
+  .option(
+    "-c, --cwd <cwd>",
+    "the working directory. Defaults to the current directory.",
+    process.cwd()
+  )
+  .option("-s, --silent", "mute output.", false)
+  .action(async (components, opts) => {
+    try {
+      const options = updateOptionsSchema.parse({
+        components,
+        cwd: path.resolve(opts.cwd),
+        silent: opts.silent,
+      })
+
+      if (!existsSync(path.resolve(options.cwd, "package.json"))) {
+        logger.error(
+          `No package.json found at ${colors.blue(options.cwd)}. Run this command in your project directory.`
+        )
+        process.exit(1)
+      }
+
+      const config = await getConfig(options.cwd)
+
+      let names = options.components ?? []
+      if (!names.length) {
+        const installedSpinner = spinner(`Looking for installed components.`, {
+          silent: options.silent,
+        }).start()
+        names = (await getInstalledItems(config)).map((item) => item.name)
+        installedSpinner.stopAndPersist({
+          symbol: colors.cyan("✔"),
+        })
+      }
+
+      if (!names.length) {
+        logger.info("No installed components found.")
+        return
+      }
+
+      const result = await addComponents(names, config, {
+        overwrite: false,
+        silent: options.silent,
+        merge: true,
+        requested: [],
+      })
+
+      if (result?.filesConflicted.length) {
+        process.exitCode = 1
+      }
+    } catch (error) {
+      logger.break()
+      handleError(error)
+    }
+  })
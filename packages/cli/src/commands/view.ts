@@ -0,0 +1,187 @@
+import path from "path"
+import { Command } from "commander"
+import { z } from "zod"
+import { colors } from "@/src/utils/colors"
+import { getConfig } from "@/src/utils/get-config"
+import { handleError } from "@/src/utils/handle-error"
+import { logger } from "@/src/utils/logger"
+import {
+  planComponents,
+  type ComponentsPlan,
+} from "@/src/utils/plan-components"
+import { parseItemSpecifier } from "@/src/utils/registry/versions"
+import { spinner } from "@/src/utils/spinner"
+
+export const viewOptionsSchema = z.object({
+  item: z.string(),
+  cwd: z.string(),
+  tree: z.boolean(),
+  source: z.string().optional(),
+  json: z.boolean(),
+})
+
+type ViewOptions = z.infer<typeof viewOptionsSchema>
+
+const ACTION_LABELS: Record<ComponentsPlan["files"][number]["action"], string> =
+  {
+    create: "new",
+    overwrite: "exists, would be overwritten",
+    prompt: "exists, differs",
+    skip: "exists, unchanged",
+  }
+
+export const view = new Command()
+  .name("view")
+  .description("inspect a registry item without installing it")
+  .argument("<item>", "the item to inspect, optionally as name@version")
+  .option("--tree", "include every registry dependency of the item.", false)
+  .option(
+    "--source <file>",
+    "print the transformed source of a file, matched by path or file name."
+  )
+  .option("--json", "print the item as JSON.", false)
+  .option(
+    "-c, --cwd <cwd>",
+    "the working directory. Defaults to the current directory.",
+    process.cwd()
+  )
+  .action(async (item, opts) => {
+    try {
+      const options = viewOptionsSchema.parse({
+        item,
+        cwd: path.resolve(opts.cwd),
+        tree: opts.tree,
+        source: opts.source,
+        json: opts.json,
+      })
+
+      await runView(options)
+    } catch (error) {
+      logger.break()
+      handleError(error)
+    }
+  })
+
+async function runView(options: ViewOptions) {
+  const config = await getConfig(options.cwd)
+
+  const registrySpinner = spinner(`Checking registry.`, {
+    silent: options.json || !!options.source,
+  })?.start()
+  const plan = await planComponents([options.item], config, {
+    includeContent: !!options.source,
+  })
+  if (!plan?.items.length) {
+    registrySpinner?.fail()
+    throw new Error(`Failed to fetch ${options.item} from the registry.`)
+  }
+  registrySpinner?.stop()
+
+  const { name } = parseItemSpecifier(options.item)
+  const root =
+    plan.items.find((planItem) => planItem.name === name) ?? plan.items[0]
+  const items = options.tree ? plan.items : [root]
+  const files = plan.files.filter((file) =>
+    items.some((planItem) => planItem.name === file.item)
+  )
+
+  if (options.source) {
+    printSource(files, options.source)
+    return
+  }
+
+  const dependencies = options.tree ? plan.dependencies : root.dependencies
+  const devDependencies = options.tree
+    ? plan.devDependencies
+    : root.devDependencies
+
+  if (options.json) {
+    process.stdout.write(
+      `${JSON.stringify(
+        {
+          ...root,
+          files,
+          dependencies,
+          devDependencies,
+          ...(options.tree && {
+            items: items.map((planItem) => planItem.name),
+          }),
+        },
+        null,
+        2
+      )}\n`
+    )
+    return
+  }
+
+  logger.break()
+  logger.log(`${colors.cyan(root.name)} ${colors.gray(`(${root.type})`)}`)
+  if (root.description) {
+    logger.log(root.description)
+  }
+  logger.log(colors.gray(`Source: ${root.source}`))
+
+  for (const planItem of items) {
+    logger.break()
+    logger.log(
+      options.tree
+        ? `Files of ${colors.cyan(planItem.name)}:`
+        : `Files (${files.length}):`
+    )
+    for (const file of files.filter((file) => file.item === planItem.name)) {
+      logger.log(
+        `  - ${file.path} ${colors.gray("→")} ${file.target} ${colors.gray(
+          `(${ACTION_LABELS[file.action]})`
+        )}`
+      )
+    }
+  }
+
+  logger.break()
+  logger.log(
+    `Registry dependencies: ${
+      root.registryDependencies.length
+        ? root.registryDependencies.join(", ")
+        : colors.gray("none")
+    }`
+  )
+  logger.log(
+    `Dependencies: ${
+      dependencies.length ? dependencies.join(", ") : colors.gray("none")
+    }`
+  )
+  logger.log(
+    `Dev dependencies: ${
+      devDependencies.length ? devDependencies.join(", ") : colors.gray("none")
+    }`
+  )
+  if (!options.tree && root.registryDependencies.length) {
+    logger.log(colors.gray(`Run with --tree to include the dependencies.`))
+  }
+  logger.break()
+}
+
+/**
+ * Writes the transformed source of exactly one matching file to stdout
+ */
+function printSource(files: ComponentsPlan["files"], query: string) {
+  const matches = files.filter(
+    (file) =>
+      file.path === query ||
+      file.target === query ||
+      path.basename(file.path) === query
+  )
+
+  if (matches.length !== 1) {
+    const candidates = (matches.length ? matches : files)
+      .map((file) => `  - ${file.path}`)
+      .join("\n")
+    throw new Error(
+      matches.length
+        ? `${query} matches more than one file. Pass the full path:\n${candidates}`
+        : `No file matches ${query}. The item has:\n${candidates}`
+    )
+  }
+
+  process.stdout.write(matches[0].content ?? "")
+}
@@ -1,8 +1,17 @@
 #!/usr/bin/env node
 import { add } from "@/src/commands/add"
-import { info } from "@/src/commands/info"
+import { auth } from "@/src/commands/auth"
+import { build } from "@/src/commands/build"
+import { diff } from "@/src/commands/diff"
+import { doctor } from "@/src/commands/doctor"
 import { init } from "@/src/commands/init"
-// import { login, status } from "@/src/commands/auth"
+import { list, search } from "@/src/commands/list"
+import { remove } from "@/src/commands/remove"
+import { update } from "@/src/commands/update"
+import { view } from "@/src/commands/view"
+import { AUTH_TOKEN_ENV, configureAuthToken } from "@/src/utils/auth"
+import { configureLogger } from "@/src/utils/logger"
+import { configureRegistryCache } from "@/src/utils/registry/cache"
 import { Command } from "commander"
 
 import packageJson from "../package.json"
@@ -19,10 +28,29 @@ async function main() {
       "-v, --version",
       "display the version number"
     )
+    .option("--offline", "resolve registry items from the local cache only.")
+    .option(
+      "--token <token>",
+      `the Tiptap registry token to use. Takes priority over ${AUTH_TOKEN_ENV} and .npmrc.`
+    )
+    .hook("preAction", (thisCommand, actionCommand) => {
+      configureLogger({ json: actionCommand.opts().json })
+      configureRegistryCache({ offline: thisCommand.opts().offline })
+      configureAuthToken(thisCommand.opts().token)
+    })
 
-  program.addCommand(init).addCommand(add).addCommand(info)
-  // .addCommand(login)
-  // .addCommand(status)
+  program
+    .addCommand(init)
+    .addCommand(add)
+    .addCommand(update)
+    .addCommand(remove)
+    .addCommand(diff)
+    .addCommand(list)
+    .addCommand(search)
+    .addCommand(view)
+    .addCommand(doctor)
+    .addCommand(build)
+    .addCommand(auth)
 
   program.parse()
 }
@@ -29,15 +29,17 @@ export async function preFlightAdd(options: z.infer<typeof addOptionsSchema>) {
       config: config!,
     }
   } catch (error) {
-    console.log("[preFlightAdd] - ", error)
+    errors[ERRORS.FAILED_CONFIG_READ] = true
 
+    logger.break()
+    logger.error(error instanceof Error ? error.message : String(error))
     logger.break()
     logger.error(
-      `Make sure you are in a valid project directory. Run ${colors.cyan(
+      `Fix the keys above, or run ${colors.cyan(
         "npx @tiptap/cli init"
-      )} to create a new project.`
+      )} to write a new components.json.`
     )
     logger.break()
-    process.exit(0)
+    process.exit(1)
   }
 }
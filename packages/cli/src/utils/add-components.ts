@@ -2,7 +2,6 @@ import path from "path"
 import {
   configSchema,
   findCommonRoot,
-  findPackageRoot,
   getWorkspaceConfig,
   workspaceConfigSchema,
   type Config,
@@ -10,19 +9,28 @@ import {
 import { handleError } from "@/src/utils/handle-error"
 import { logger } from "@/src/utils/logger"
 import {
-  fetchRegistry,
-  getRegistryParentMap,
+  filterDevDependenciesByFramework,
   getRegistryTypeAliasMap,
   registryResolveItemsTree,
   resolveRegistryItems,
 } from "@/src/utils/registry"
-import { registryItemSchema } from "@/src/utils/registry/schema"
+import { verifyRegistryItems } from "@/src/utils/registry/integrity"
+import { type RegistryItem } from "@/src/utils/registry/schema"
 import { spinner } from "@/src/utils/spinner"
 import { updateDependencies } from "@/src/utils/updaters/update-dependencies"
-import { updateFiles } from "@/src/utils/updaters/update-files"
+import {
+  resolveMovedModules,
+  updateFiles,
+} from "@/src/utils/updaters/update-files"
 import { z } from "zod"
 import { colors } from "@/src/utils/colors"
 import { updateDevDependencies } from "@/src/utils/updaters/update-dev-dependencies"
+import { updateWorkspaceDependencies } from "@/src/utils/updaters/update-workspace-dependencies"
+import { type Framework } from "@/src/utils/frameworks"
+import { type ResolvedFile, updateLockfile } from "@/src/utils/lockfile"
+import { getProjectInfo } from "@/src/utils/get-project-info"
+import { withIconLibraryDependencies } from "@/src/utils/icon-libraries"
+import { parseItemSpecifier } from "@/src/utils/registry/versions"
 
 export async function addComponents(
   components: string[],
@@ -31,22 +39,23 @@ export async function addComponents(
     overwrite?: boolean
     silent?: boolean
     isNewProject?: boolean
+    merge?: boolean
+    requested?: string[]
+    path?: string
   }
 ) {
   options = {
     overwrite: false,
     silent: false,
     isNewProject: false,
+    merge: false,
+    requested: components,
     ...options,
   }
 
   const workspaceConfig = await getWorkspaceConfig(config)
 
-  if (
-    workspaceConfig &&
-    workspaceConfig.tiptapUi &&
-    workspaceConfig.tiptapUi.resolvedPaths.cwd !== config.resolvedPaths.cwd
-  ) {
+  if (isWorkspaceInstall(config, workspaceConfig)) {
     return await addWorkspaceComponents(components, config, workspaceConfig, {
       ...options,
     })
@@ -55,6 +64,111 @@ export async function addComponents(
   return await addProjectComponents(components, config, options)
 }
 
+export function isWorkspaceInstall(
+  config: Config,
+  workspaceConfig: z.infer<typeof workspaceConfigSchema> | null
+): workspaceConfig is z.infer<typeof workspaceConfigSchema> {
+  return (
+    !!workspaceConfig &&
+    Object.values(workspaceConfig).some(
+      (aliasConfig) =>
+        aliasConfig.resolvedPaths.cwd !== config.resolvedPaths.cwd
+    )
+  )
+}
+
+/**
+ * Maps the files of the requested items to the custom directory they are
+ * installed into. Their registry dependencies keep their alias directories.
+ */
+export function getCustomTargetDirs(
+  items: RegistryItem[],
+  requested: string[],
+  config: Config,
+  targetPath?: string
+) {
+  const targetDirs = new Map<string, string>()
+  if (!targetPath) {
+    return targetDirs
+  }
+
+  const targetDir = path.resolve(config.resolvedPaths.cwd, targetPath)
+  const names = requested.map((name) => parseItemSpecifier(name).name)
+  for (const item of items) {
+    if (!names.includes(item.name)) {
+      continue
+    }
+
+    for (const file of item.files ?? []) {
+      targetDirs.set(file.path, targetDir)
+    }
+  }
+
+  return targetDirs
+}
+
+/**
+ * Picks the workspace package config a registry item is installed into, the
+ * one its type's alias resolves to
+ */
+export function getWorkspaceTargetConfig(
+  component: Pick<RegistryItem, "type">,
+  config: Config,
+  workspaceConfig: z.infer<typeof workspaceConfigSchema>
+) {
+  const alias = getRegistryTypeAliasMap().get(component.type)
+  return (alias && workspaceConfig[alias]) || config
+}
+
+type WorkspacePackage = {
+  config: Config
+  dependencies: string[]
+  devDependencies: string[]
+  // Directories of the packages its items import from.
+  workspaceDependencies: string[]
+}
+
+/**
+ * Groups npm dependencies by the package whose items import them, and links
+ * packages whose items import items installed into another package
+ */
+function getWorkspacePackages(
+  payload: RegistryItem[],
+  targetConfigs: Map<string, Config>
+) {
+  const packages = new Map<string, WorkspacePackage>()
+
+  for (const component of payload) {
+    const targetConfig = targetConfigs.get(component.name)
+    if (!targetConfig) {
+      continue
+    }
+
+    const cwd = targetConfig.resolvedPaths.cwd
+    const workspacePackage = packages.get(cwd) ?? {
+      config: targetConfig,
+      dependencies: [],
+      devDependencies: [],
+      workspaceDependencies: [],
+    }
+    packages.set(cwd, workspacePackage)
+
+    workspacePackage.dependencies.push(...(component.dependencies ?? []))
+    workspacePackage.devDependencies.push(...(component.devDependencies ?? []))
+
+    for (const dependency of component.registryDependencies ?? []) {
+      const dependencyCwd = targetConfigs.get(
+        parseItemSpecifier(dependency).name
+      )?.resolvedPaths.cwd
+      if (dependencyCwd && dependencyCwd !== cwd) {
+        workspacePackage.workspaceDependencies.push(dependencyCwd)
+      }
+    }
+  }
+
+  return Array.from(packages.values())
+}
+
 async function addProjectComponents(
   components: string[],
   config: z.infer<typeof configSchema>,
@@ -62,6 +176,9 @@ async function addProjectComponents(
     overwrite?: boolean
     silent?: boolean
     isNewProject?: boolean
+    merge?: boolean
+    requested?: string[]
+    path?: string
   }
 ) {
   const registrySpinner = spinner(`Checking registry.`, {
@@ -77,6 +194,9 @@ async function addProjectComponents(
     symbol: colors.cyan("✔"),
   })
 
+  // Before anything is installed or written.
+  await verifyRegistryItems(tree.items, config)
+
   await updateDependencies(tree.dependencies, config, {
     silent: options.silent,
   })
@@ -85,10 +205,33 @@ async function addProjectComponents(
     silent: options.silent,
   })
 
-  return await updateFiles(tree.files, config, {
+  const targetDirs = getCustomTargetDirs(
+    tree.items,
+    options.requested ?? components,
+    config,
+    options.path
+  )
+  const files = await updateFiles(tree.files, config, {
     overwrite: options.overwrite,
     silent: options.silent,
+    merge: options.merge,
+    targetDirs,
+    movedModules: resolveMovedModules(
+      tree.files ?? [],
+      config,
+      await getProjectInfo(config.resolvedPaths.cwd),
+      targetDirs
+    ),
   })
+
+  await updateLockfile(
+    config,
+    tree.items,
+    files.resolvedFiles,
+    options.requested
+  )
+
+  return files
 }
 
 async function addWorkspaceComponents(
@@ -99,15 +242,18 @@ async function addWorkspaceComponents(
     overwrite?: boolean
     silent?: boolean
     isNewProject?: boolean
+    merge?: boolean
+    requested?: string[]
+    path?: string
   }
 ) {
   const registrySpinner = spinner(`Checking registry.`, {
     silent: options.silent,
   }).start()
-  const registryItems = await resolveRegistryItems(components, config)
-  const result = await fetchRegistry(registryItems, config)
-
-  const payload = z.array(registryItemSchema).parse(result)
+  const payload = withIconLibraryDependencies(
+    await resolveRegistryItems(components, config),
+    config
+  )
   if (!payload.length) {
     registrySpinner?.fail()
     return handleError(new Error("Failed to fetch components from registry."))
@@ -116,52 +262,97 @@ async function addWorkspaceComponents(
     symbol: colors.cyan("✔"),
   })
 
-  const registryParentMap = getRegistryParentMap(payload)
+  // Before anything is installed or written.
+  await verifyRegistryItems(payload, config)
+  const payloadFiles = payload.flatMap((item) => item.files ?? [])
+
   const registryTypeAliasMap = getRegistryTypeAliasMap()
+  const targetConfigs = new Map<string, Config>()
+  for (const component of payload) {
+    // We don't support this type of component.
+    if (!registryTypeAliasMap.has(component.type)) {
+      continue
+    }
+
+    targetConfigs.set(
+      component.name,
+      getWorkspaceTargetConfig(component, config, workspaceConfig)
+    )
+  }
+
+  // Resolved up front too, as importers may belong to other components.
+  const targetDirs = getCustomTargetDirs(
+    payload,
+    options.requested ?? components,
+    config,
+    options.path
+  )
+  const movedModules = resolveMovedModules(
+    payloadFiles,
+    config,
+    await getProjectInfo(config.resolvedPaths.cwd),
+    targetDirs
+  )
+
+  // 3. Update dependencies, once per package.
+  for (const workspacePackage of getWorkspacePackages(payload, targetConfigs)) {
+    const packageConfig = workspacePackage.config
+    const projectInfo = await getProjectInfo(packageConfig.resolvedPaths.cwd)
+
+    await updateWorkspaceDependencies(
+      workspacePackage.workspaceDependencies,
+      packageConfig,
+      {
+        silent: options.silent,
+      }
+    )
+
+    await updateDependencies(workspacePackage.dependencies, packageConfig, {
+      silent: options.silent,
+    })
+
+    await updateDevDependencies(
+      filterDevDependenciesByFramework(
+        workspacePackage.devDependencies,
+        projectInfo?.framework.name as Framework["name"]
+      ),
+      packageConfig,
+      {
+        silent: options.silent,
+      }
+    )
+  }
+
+  const workspaceRoot = Array.from(targetConfigs.values()).reduce(
+    (root, targetConfig) =>
+      findCommonRoot(root, targetConfig.resolvedPaths.cwd),
+    config.resolvedPaths.cwd
+  )
 
   const filesCreated: string[] = []
   const filesUpdated: string[] = []
   const filesSkipped: string[] = []
+  const filesConflicted: string[] = []
+  const resolvedFiles: ResolvedFile[] = []
 
   const rootSpinner = spinner(`Installing components.`)?.start()
 
   for (const component of payload) {
-    const alias = registryTypeAliasMap.get(component.type)
-    const registryParent = registryParentMap.get(component.name)
-
-    // We don't support this type of component.
-    if (!alias) {
+    const targetConfig = targetConfigs.get(component.name)
+    if (!targetConfig) {
       continue
     }
 
-    // A good start is ui for now.
-    const targetConfig =
-      component.type === "registry:ui" || registryParent?.type === "registry:ui"
-        ? workspaceConfig.tiptapUi || config
-        : config
-
-    if (!targetConfig.resolvedPaths.tiptapUi) {
-      continue
-    }
-
-    const workspaceRoot = findCommonRoot(
-      config.resolvedPaths.cwd,
-      targetConfig.resolvedPaths.tiptapUi
-    )
-    const packageRoot =
-      (await findPackageRoot(workspaceRoot, targetConfig.resolvedPaths.cwd)) ??
-      targetConfig.resolvedPaths.cwd
-
-    // 3. Update dependencies.
-    await updateDependencies(component.dependencies || [], targetConfig, {
-      silent: true,
-    })
+    const packageRoot = targetConfig.resolvedPaths.cwd
 
     // 4. Update files.
     const files = await updateFiles(component.files || [], targetConfig, {
       overwrite: options.overwrite,
       silent: true,
+      merge: options.merge,
       rootSpinner,
+      targetDirs,
+      movedModules,
     })
 
     if (files.errors && files.errors.length > 0) {
@@ -189,16 +380,25 @@ async function addWorkspaceComponents(
         path.relative(workspaceRoot, path.join(packageRoot, file))
       )
     )
+    filesConflicted.push(
+      ...files.filesConflicted.map((file) =>
+        path.relative(workspaceRoot, path.join(packageRoot, file))
+      )
+    )
+    resolvedFiles.push(...files.resolvedFiles)
   }
 
   rootSpinner.stopAndPersist({
     symbol: colors.cyan("✔"),
   })
 
+  await updateLockfile(config, payload, resolvedFiles, options.requested)
+
   // Sort files.
   filesCreated.sort()
   filesUpdated.sort()
   filesSkipped.sort()
+  filesConflicted.sort()
 
   const hasUpdatedFiles = filesCreated.length || filesUpdated.length
   if (!hasUpdatedFiles && !filesSkipped.length) {
@@ -251,9 +451,26 @@ async function addWorkspaceComponents(
     }
   }
 
+  if (filesConflicted.length) {
+    spinner(
+      `Merged ${filesConflicted.length} ${
+        filesConflicted.length === 1 ? "file" : "files"
+      } with conflicts: (resolve the conflict markers manually)`,
+      {
+        silent: options.silent,
+      }
+    )?.warn()
+    if (!options.silent) {
+      for (const file of filesConflicted) {
+        logger.log(`  - ${file}`)
+      }
+    }
+  }
+
   return {
     filesCreated,
     filesUpdated,
     filesSkipped,
+    filesConflicted,
   }
 }
@@ -2,8 +2,8 @@ import fs from "fs-extra"
 import path from "path"
 import os from "os"
 import { execa } from "execa"
-import fetch from "node-fetch"
-import { HttpsProxyAgent } from "https-proxy-agent"
+import { httpFetch } from "@/src/utils/http"
+import { parseNpmrcValues, readNpmrcFile } from "@/src/utils/npmrc"
 import { logger } from "@/src/utils/logger"
 import { spinner } from "@/src/utils/spinner"
 import yaml from "yaml"
@@ -15,6 +15,7 @@ const AUTH_API_URL = `${REGISTRY_URL}/api/auth`
 const TIPTAP_REGISTRY = "https://registry.tiptap.dev/"
 const AUTH_TOKEN_KEY = "//registry.tiptap.dev/:_authToken"
 const SCOPE_REGISTRY_KEY = "@tiptap-pro:registry"
+export const AUTH_TOKEN_ENV = "TIPTAP_REGISTRY_TOKEN"
 
 type PackageManager = "npm" | "yarn" | "pnpm" | "bun"
 type AuthResult = {
@@ -22,17 +23,24 @@ type AuthResult = {
   token?: string
   error?: string
 }
+type AuthTokenSource = {
+  token: string
+  source: string
+}
 type AuthStatus = {
   authenticated: boolean
+  source?: string
+  expired?: boolean
   user?: string
   plan?: string
   expires?: string
   token?: string
 }
 
-const httpAgent = process.env.https_proxy
-  ? new HttpsProxyAgent(process.env.https_proxy)
-  : undefined
+let flagToken: string | undefined
+
+// Tokens this close to their expiry date are flagged by `auth status`.
+const EXPIRY_WARNING_MS = 7 * 24 * 60 * 60 * 1000
 
 /**
  * Authenticate a user with the Tiptap registry
@@ -60,7 +68,7 @@ export async function authenticateUser({
       return { success: false, error: "Invalid credentials" }
     }
 
-    const token = await requestAuthToken(email, password)
+    const token = await requestAuthToken(email, password, cwd)
 
     if (writeConfig) {
       const success = await saveAuthToken(token, packageManager, cwd)
@@ -92,13 +100,14 @@ export async function authenticateUser({
  */
 async function requestAuthToken(
   email: string,
-  password: string
+  password: string,
+  cwd: string
 ): Promise<string> {
-  const response = await fetch(`${AUTH_API_URL}/login`, {
+  const response = await httpFetch(`${AUTH_API_URL}/login`, {
     method: "POST",
     headers: { "Content-Type": "application/json" },
     body: JSON.stringify({ email, password }),
-    agent: httpAgent,
+    cwd,
   })
 
   if (!response.ok) {
@@ -117,23 +126,25 @@ export async function checkAuthStatus(
   cwd: string
 ): Promise<AuthStatus> {
   try {
-    const token = await getAuthToken(packageManager, cwd)
+    const tokenSource = await getAuthTokenSource(packageManager, cwd)
 
-    if (!token) {
+    if (!tokenSource) {
       return { authenticated: false }
     }
 
-    const response = await fetch(`${AUTH_API_URL}/verify`, {
+    const { token, source } = tokenSource
+
+    const response = await httpFetch(`${AUTH_API_URL}/verify`, {
       method: "GET",
       headers: {
         "Content-Type": "application/json",
         Authorization: `Bearer ${token}`,
       },
-      agent: httpAgent,
+      cwd,
     })
 
     if (!response.ok) {
-      return { authenticated: false }
+      return { authenticated: false, source }
     }
 
     const data = (await response.json()) as {
@@ -143,12 +154,16 @@ export async function checkAuthStatus(
       expires?: string
     }
 
+    const expired = isTokenExpired(data.expires)
+
     return {
-      authenticated: true,
+      authenticated: !expired,
+      expired,
       user: data.email || data.username,
       plan: data.plan,
       expires: data.expires,
       token,
+      source,
     }
   } catch (error) {
     logger.error(
@@ -158,6 +173,23 @@ export async function checkAuthStatus(
   }
 }
 
+/**
+ * Whether the `expires` date from /verify has passed. Tokens without a
+ * readable date never expire.
+ */
+export function isTokenExpired(expires?: string) {
+  const expiresAt = expires ? Date.parse(expires) : NaN
+  return !Number.isNaN(expiresAt) && expiresAt <= Date.now()
+}
+
+/**
+ * Whether the token expires within the next week
+ */
+export function isTokenExpiringSoon(expires?: string) {
+  const expiresAt = expires ? Date.parse(expires) : NaN
+  return !Number.isNaN(expiresAt) && expiresAt - Date.now() < EXPIRY_WARNING_MS
+}
+
 /**
  * Save authentication token to package manager config
  */
@@ -345,6 +377,13 @@ function parseNpmrc(
   return { lines, processedKeys }
 }
 
+/**
+ * Set the token passed with --token. It takes priority over every other source.
+ */
+export function configureAuthToken(token?: string) {
+  flagToken = token || undefined
+}
+
 /**
  * Get auth token from package manager config
  */
@@ -352,24 +391,50 @@ export async function getAuthToken(
   packageManager: PackageManager,
   cwd: string
 ): Promise<string | null> {
+  return (await getAuthTokenSource(packageManager, cwd))?.token ?? null
+}
+
+/**
+ * Get auth token along with where it was found: the --token flag, the
+ * environment, or a package manager config
+ */
+export async function getAuthTokenSource(
+  packageManager: PackageManager,
+  cwd: string
+): Promise<AuthTokenSource | null> {
+  if (flagToken) {
+    return { token: flagToken, source: "the --token flag" }
+  }
+
+  const envToken = process.env[AUTH_TOKEN_ENV]?.trim()
+  if (envToken) {
+    return { token: envToken, source: `the ${AUTH_TOKEN_ENV} variable` }
+  }
+
   try {
-    // First check project .npmrc
-    const projectToken = await checkProjectNpmrc(cwd)
-    if (projectToken) {
-      return projectToken
+    // First check project .npmrc and .yarnrc.yml
+    const npmrcToken = await checkProjectNpmrc(cwd)
+    if (npmrcToken) {
+      return { token: npmrcToken, source: path.join(cwd, ".npmrc") }
+    }
+
+    const yarnrcToken = await checkProjectYarnrc(cwd)
+    if (yarnrcToken) {
+      return { token: yarnrcToken, source: path.join(cwd, ".yarnrc.yml") }
     }
 
     // Then check package manager specific methods
     if (packageManager === "npm") {
-      return await getNpmAuthToken(cwd)
+      const npmToken = await getNpmAuthToken(cwd)
+      return npmToken ? { token: npmToken, source: "npm config" } : null
     }
 
     // For other package managers, check global .npmrc
-    return await checkGlobalNpmrc()
+    const globalToken = await checkGlobalNpmrc()
+    return globalToken
+      ? { token: globalToken, source: path.join(os.homedir(), ".npmrc") }
+      : null
   } catch (error) {
-    // logger.error(
-    //   `Error getting auth token: ${error instanceof Error ? error.message : 'Unknown error'}`
-    // )
     return null
   }
 }
@@ -378,12 +443,22 @@ export async function getAuthToken(
  * Check project .npmrc for auth token
  */
 async function checkProjectNpmrc(cwd: string): Promise<string | null> {
-  const projectNpmrcPath = path.join(cwd, ".npmrc")
-  if (fs.existsSync(projectNpmrcPath)) {
-    const content = await fs.readFile(projectNpmrcPath, "utf8")
-    return extractAuthToken(content)
+  const values = await readNpmrcFile(path.join(cwd, ".npmrc"))
+  return values[AUTH_TOKEN_KEY] || null
+}
+
+/**
+ * Check project .yarnrc.yml for the tiptap-pro scope token
+ */
+async function checkProjectYarnrc(cwd: string): Promise<string | null> {
+  const yarnrcPath = path.join(cwd, ".yarnrc.yml")
+  if (!fs.existsSync(yarnrcPath)) {
+    return null
   }
-  return null
+
+  const yamlObj = yaml.parse(await fs.readFile(yarnrcPath, "utf8")) || {}
+  const token = yamlObj.npmScopes?.["tiptap-pro"]?.npmAuthToken
+  return typeof token === "string" && token ? token : null
 }
 
 /**
@@ -401,30 +476,87 @@ async function getNpmAuthToken(cwd: string): Promise<string | null> {
  * Check global .npmrc file for auth token
  */
 async function checkGlobalNpmrc(): Promise<string | null> {
-  const globalNpmrcPath = path.join(os.homedir(), ".npmrc")
+  const values = await readNpmrcFile(path.join(os.homedir(), ".npmrc"))
+  return values[AUTH_TOKEN_KEY] || null
+}
+
+/**
+ * Extract auth token from config string
+ */
+export function extractAuthToken(configString: string): string | null {
+  return parseNpmrcValues(configString)[AUTH_TOKEN_KEY] || null
+}
+
+/**
+ * Remove the auth token from every location getAuthToken reads it from.
+ * Returns the locations it was removed from.
+ */
+export async function removeAuthToken(
+  packageManager: PackageManager,
+  cwd: string
+): Promise<string[]> {
+  const removed: string[] = []
+
+  const npmrcPaths = new Set([
+    path.join(cwd, ".npmrc"),
+    path.join(os.homedir(), ".npmrc"),
+  ])
+  for (const npmrcPath of npmrcPaths) {
+    if (await removeFromNpmrc(npmrcPath)) {
+      removed.push(npmrcPath)
+    }
+  }
+
+  const yarnrcPath = path.join(cwd, ".yarnrc.yml")
+  if (await removeYarnBerryToken(yarnrcPath)) {
+    removed.push(yarnrcPath)
+  }
 
-  if (fs.existsSync(globalNpmrcPath)) {
-    const content = await fs.readFile(globalNpmrcPath, "utf8")
-    return extractAuthToken(content)
+  // npm also reads tokens from its own user and global config.
+  if (packageManager === "npm" && (await getNpmAuthToken(cwd))) {
+    await execa("npm", ["config", "delete", AUTH_TOKEN_KEY], { cwd })
+    removed.push("npm config")
   }
 
-  return null
+  return removed
 }
 
 /**
- * Extract auth token from config string
+ * Remove the auth token line from an .npmrc file, keeping everything else
  */
-export function extractAuthToken(configString: string): string | null {
-  // Split into lines and filter for registry.tiptap.dev
-  const lines = configString
-    .split("\n")
-    .filter((line) => line.startsWith("//registry.tiptap.dev/:_authToken="))
+async function removeFromNpmrc(npmrcPath: string): Promise<boolean> {
+  if (!fs.existsSync(npmrcPath)) {
+    return false
+  }
 
-  if (lines.length === 0) {
-    return null
+  const lines = (await fs.readFile(npmrcPath, "utf8")).split("\n")
+  const remaining = lines.filter(
+    (line) => line.substring(0, line.indexOf("=")).trim() !== AUTH_TOKEN_KEY
+  )
+
+  if (remaining.length === lines.length) {
+    return false
+  }
+
+  await fs.writeFile(npmrcPath, remaining.join("\n"))
+  return true
+}
+
+/**
+ * Remove the tiptap-pro scope token from .yarnrc.yml
+ */
+async function removeYarnBerryToken(yarnrcPath: string): Promise<boolean> {
+  if (!fs.existsSync(yarnrcPath)) {
+    return false
   }
 
-  // Extract the token after the "=" sign
-  const token = lines[0].split("=")[1]?.trim()
-  return token || null
+  const yamlObj = yaml.parse(await fs.readFile(yarnrcPath, "utf8")) || {}
+  const scope = yamlObj.npmScopes?.["tiptap-pro"]
+  if (!scope?.npmAuthToken) {
+    return false
+  }
+
+  delete scope.npmAuthToken
+  await fs.writeFile(yarnrcPath, yaml.stringify(yamlObj))
+  return true
 }
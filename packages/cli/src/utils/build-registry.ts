@@ -0,0 +1,496 @@
+import { createPrivateKey, sign } from "crypto"
+import { promises as fs } from "fs"
+import { builtinModules } from "module"
+import path from "path"
+import fg from "fast-glob"
+import semver from "semver"
+import { Project, ScriptKind } from "ts-morph"
+import {
+  getIndexSigningPayload,
+  getIntegrity,
+  INDEX_SIGNATURE_PATH,
+} from "@/src/utils/registry/integrity"
+import {
+  registryIndexSchema,
+  registryItemSchema,
+  type RegistryItem,
+} from "@/src/utils/registry/schema"
+import { z } from "zod"
+
+type RegistryItemType = RegistryItem["type"]
+
+/**
+ * Where items live below the source root. Directory items group every file
+ * in a subdirectory, file items are a single file each.
+ */
+const ITEM_SOURCES: {
+  dir: string
+  type: RegistryItemType
+  kind: "directory" | "file"
+}[] = [
+  { dir: "components/tiptap-ui", type: "registry:ui", kind: "directory" },
+  {
+    dir: "components/tiptap-ui-primitive",
+    type: "registry:ui-primitive",
+    kind: "directory",
+  },
+  {
+    dir: "components/tiptap-ui-utils",
+    type: "registry:ui-utils",
+    kind: "directory",
+  },
+  { dir: "components/tiptap-node", type: "registry:node", kind: "directory" },
+  {
+    dir: "components/tiptap-extension",
+    type: "registry:extension",
+    kind: "directory",
+  },
+  {
+    dir: "components/tiptap-templates",
+    type: "registry:template",
+    kind: "directory",
+  },
+  { dir: "components/tiptap-icons", type: "registry:icon", kind: "file" },
+  { dir: "contexts", type: "registry:context", kind: "file" },
+  { dir: "hooks", type: "registry:hook", kind: "file" },
+  { dir: "lib", type: "registry:lib", kind: "file" },
+  { dir: "styles", type: "registry:style", kind: "file" },
+]
+
+const SOURCE_EXTENSIONS = [".ts", ".tsx", ".js", ".jsx"]
+
+const STYLE_EXTENSIONS = [".scss", ".sass", ".css"]
+
+// @use and @forward load one URL, @import may list several.
+const STYLE_RULE_REGEX = /@(use|forward|import)\s+([^;]+)/g
+
+// Provided by every project the CLI installs into.
+const IGNORED_DEPENDENCIES = ["react", "react-dom"]
+
+const SASS_DEV_DEPENDENCIES = ["sass", "sass-embedded"]
+
+type SourceItem = {
+  name: string
+  type: RegistryItemType
+  // Root relative path of the item directory, or of its only file.
+  root: string
+  files: string[]
+}
+
+export type BuildRegistryResult = {
+  items: RegistryItem[]
+  warnings: string[]
+}
+
+const project = new Project({
+  useInMemoryFileSystem: true,
+  compilerOptions: {},
+})
+
+/**
+ * Builds registry items from a source tree laid out like apps/web/src,
+ * i.e. the directory the "@/" alias points to. With a namespace, items
+ * depend on each other as "@namespace/name".
+ */
+export async function buildRegistry(
+  sourceDir: string,
+  options: { namespace?: string; version?: string } = {}
+): Promise<BuildRegistryResult> {
+  const sourceItems = await collectSourceItems(sourceDir)
+  const warnings: string[] = []
+  const items: RegistryItem[] = []
+
+  for (const sourceItem of sourceItems) {
+    const dependencies = new Set<string>()
+    const devDependencies = new Set<string>()
+    const registryDependencies = new Set<string>()
+    const files: NonNullable<RegistryItem["files"]> = []
+
+    const getDependencyName = (owner: SourceItem) =>
+      options.namespace ? `${options.namespace}/${owner.name}` : owner.name
+
+    for (const file of sourceItem.files) {
+      const raw = await fs.readFile(path.join(sourceDir, file), "utf-8")
+      let content = raw
+
+      if (file.endsWith(".scss")) {
+        SASS_DEV_DEPENDENCIES.forEach((dep) => devDependencies.add(dep))
+      }
+
+      // Style imports stay relative, so only their owners are recorded.
+      if (isStyleFile(file)) {
+        for (const specifier of getStyleSpecifiers(raw)) {
+          const owner = findStyleOwner(
+            sourceItems,
+            resolveSpecifier(specifier, file) ??
+              path.posix.join(path.posix.dirname(file), specifier)
+          )
+
+          if (!owner) {
+            // Bare URLs may also come from a load path, e.g. a package.
+            if (specifier.startsWith(".") || specifier.startsWith("@/")) {
+              warnings.push(
+                `${file} imports ${specifier}, which is not part of any registry item.`
+              )
+            }
+            continue
+          }
+
+          if (owner !== sourceItem) {
+            registryDependencies.add(getDependencyName(owner))
+          }
+        }
+      }
+
+      if (isSourceFile(file)) {
+        const sourceFile = project.createSourceFile(`/${file}`, raw, {
+          scriptKind: ScriptKind.TSX,
+          overwrite: true,
+        })
+        const declarations = [
+          ...sourceFile.getImportDeclarations(),
+          ...sourceFile.getExportDeclarations(),
+        ]
+
+        for (const declaration of declarations) {
+          const specifier = declaration.getModuleSpecifierValue()
+          if (!specifier) {
+            continue
+          }
+
+          const target = resolveSpecifier(specifier, file)
+          if (!target) {
+            const dependency = getPackageName(specifier)
+            if (dependency && !IGNORED_DEPENDENCIES.includes(dependency)) {
+              dependencies.add(dependency)
+            }
+            continue
+          }
+
+          const owner = findOwningItem(sourceItems, target)
+          if (!owner) {
+            warnings.push(
+              `${file} imports ${specifier}, which is not part of any registry item.`
+            )
+            continue
+          }
+
+          if (owner === sourceItem && !specifier.startsWith("@/")) {
+            continue
+          }
+
+          if (owner !== sourceItem) {
+            registryDependencies.add(getDependencyName(owner))
+          }
+          declaration.setModuleSpecifier(toRegistrySpecifier(target))
+        }
+
+        content = sourceFile.getFullText()
+      }
+
+      files.push({
+        path: toRegistryPath(file),
+        type: sourceItem.type,
+        content,
+        integrity: getIntegrity(content),
+      })
+    }
+
+    items.push(
+      registryItemSchema.parse({
+        name: sourceItem.name,
+        type: sourceItem.type,
+        version: options.version,
+        dependencies: Array.from(dependencies).sort(),
+        devDependencies: Array.from(devDependencies).sort(),
+        registryDependencies: Array.from(registryDependencies).sort(),
+        files,
+      })
+    )
+  }
+
+  return { items, warnings }
+}
+
+/**
+ * Writes index.json and one <name>.json per item to the output directory.
+ * Versions listed by an index.json already in the output directory are kept.
+ * With a private key, index.json also gets a detached index.json.sig.
+ */
+export async function writeRegistry(
+  items: RegistryItem[],
+  outputDir: string,
+  options: { privateKey?: string } = {}
+) {
+  await fs.mkdir(outputDir, { recursive: true })
+
+  const previousIndex = await readPreviousIndex(outputDir)
+  const index: z.input<typeof registryIndexSchema> = items
+    .map(({ files, ...item }) => ({
+      ...item,
+      versions: getPublishedVersions(
+        item.version,
+        previousIndex.find((entry) => entry.name === item.name)
+      ),
+      integrity: getPublishedIntegrity(
+        item.version,
+        files ?? [],
+        previousIndex.find((entry) => entry.name === item.name)
+      ),
+      files: files?.map(({ content, ...file }) => file),
+    }))
+    .map(omitHidden)
+
+  await fs.writeFile(
+    path.join(outputDir, "index.json"),
+    `${JSON.stringify(index, null, 2)}\n`,
+    "utf-8"
+  )
+
+  if (options.privateKey) {
+    const signature = sign(
+      null,
+      getIndexSigningPayload(index),
+      createPrivateKey(options.privateKey)
+    )
+    await fs.writeFile(
+      path.join(outputDir, path.basename(INDEX_SIGNATURE_PATH)),
+      `${JSON.stringify({ signature: signature.toString("base64") }, null, 2)}\n`,
+      "utf-8"
+    )
+  }
+
+  for (const item of items) {
+    await fs.writeFile(
+      path.join(outputDir, `${item.name}.json`),
+      `${JSON.stringify(omitHidden(item), null, 2)}\n`,
+      "utf-8"
+    )
+  }
+}
+
+async function readPreviousIndex(outputDir: string) {
+  try {
+    const content = await fs.readFile(
+      path.join(outputDir, "index.json"),
+      "utf-8"
+    )
+    return registryIndexSchema.parse(JSON.parse(content))
+  } catch (error) {
+    return []
+  }
+}
+
+/**
+ * Every version the registry has published an item in, newest first
+ */
+function getPublishedVersions(
+  version: string | undefined,
+  previous: z.infer<typeof registryIndexSchema>[number] | undefined
+) {
+  const versions = new Set([
+    ...(previous?.versions ?? (previous?.version ? [previous.version] : [])),
+    ...(version ? [version] : []),
+  ])
+
+  return versions.size
+    ? semver.rsort(Array.from(versions).filter((value) => semver.valid(value)))
+    : undefined
+}
+
+/**
+ * File integrity by version, so a signed index vouches for every published
+ * version and not only the latest
+ */
+function getPublishedIntegrity(
+  version: string | undefined,
+  files: NonNullable<RegistryItem["files"]>,
+  previous: z.infer<typeof registryIndexSchema>[number] | undefined
+) {
+  if (!version) {
+    return previous?.integrity
+  }
+
+  return {
+    ...previous?.integrity,
+    [version]: Object.fromEntries(
+      files
+        .filter((file) => file.integrity)
+        .map((file) => [file.path, file.integrity!])
+    ),
+  }
+}
+
+// Schema defaults are applied again by the CLI when reading the registry.
+function omitHidden<T extends { hidden?: boolean }>({ hidden, ...item }: T) {
+  return item
+}
+
+async function collectSourceItems(sourceDir: string) {
+  const items: SourceItem[] = []
+
+  for (const { dir, type, kind } of ITEM_SOURCES) {
+    const files = await fg.glob("**/*", {
+      cwd: path.join(sourceDir, dir),
+      ignore: ["**/*.d.ts", "**/*.test.*", "**/*.stories.*"],
+    })
+
+    if (kind === "file") {
+      for (const file of files.filter((file) => !file.includes("/"))) {
+        items.push({
+          name: path.parse(file).name.replace(/^_/, ""),
+          type,
+          root: stripExtension(`${dir}/${file}`),
+          files: [`${dir}/${file}`],
+        })
+      }
+      continue
+    }
+
+    const groups = new Map<string, string[]>()
+    for (const file of files) {
+      const [name, ...rest] = file.split("/")
+      if (!rest.length) {
+        continue
+      }
+      groups.set(name, [...(groups.get(name) ?? []), `${dir}/${file}`])
+    }
+
+    for (const [name, groupFiles] of groups) {
+      items.push({
+        name,
+        type,
+        root: `${dir}/${name}`,
+        files: groupFiles.sort(),
+      })
+    }
+  }
+
+  const names = new Set<string>()
+  for (const item of items) {
+    if (names.has(item.name)) {
+      throw new Error(
+        `Two registry items are named ${item.name}. Item names must be unique across directories.`
+      )
+    }
+    names.add(item.name)
+  }
+
+  return items.sort((a, b) => a.name.localeCompare(b.name))
+}
+
+/**
+ * Turns a local import into a path relative to the source root. Returns null
+ * for package imports.
+ */
+function resolveSpecifier(specifier: string, importer: string) {
+  if (specifier.startsWith("@/")) {
+    return specifier.slice(2)
+  }
+
+  if (specifier.startsWith(".")) {
+    return path.posix.join(path.posix.dirname(importer), specifier)
+  }
+
+  return null
+}
+
+function findOwningItem(items: SourceItem[], target: string) {
+  const normalized = stripExtension(target)
+
+  return items.find(
+    (item) =>
+      normalized === item.root ||
+      normalized.startsWith(`${item.root}/`) ||
+      item.files.includes(target)
+  )
+}
+
+/**
+ * The URLs a stylesheet loads, without built-in modules like "sass:math"
+ * and remote stylesheets
+ */
+function getStyleSpecifiers(content: string) {
+  return Array.from(content.matchAll(STYLE_RULE_REGEX)).flatMap(
+    ([, rule, args]) => {
+      const specifiers = Array.from(
+        args.matchAll(/["']([^"']+)["']/g),
+        ([, specifier]) => specifier
+      )
+      // Strings after the URL of @use belong to `with (...)` or `as`.
+      return (rule === "import" ? specifiers : specifiers.slice(0, 1)).filter(
+        (specifier) =>
+          !specifier.startsWith("sass:") && !/^([a-z]+:)?\/\//i.test(specifier)
+      )
+    }
+  )
+}
+
+/**
+ * Finds the item of a stylesheet the way Sass resolves it: the extension
+ * and the partial underscore are optional, and directories load _index.
+ */
+function findStyleOwner(items: SourceItem[], target: string) {
+  const { dir, name, ext } = path.posix.parse(target)
+  const hasExtension = STYLE_EXTENSIONS.includes(ext)
+  const extensions = hasExtension ? [ext] : STYLE_EXTENSIONS
+  const stem = hasExtension ? path.posix.join(dir, name) : target
+  const partial = path.posix.join(
+    path.posix.dirname(stem),
+    `_${path.posix.basename(stem)}`
+  )
+
+  const candidates = [
+    ...extensions.flatMap((extension) => [
+      `${stem}${extension}`,
+      `${partial}${extension}`,
+    ]),
+    ...(hasExtension
+      ? []
+      : STYLE_EXTENSIONS.flatMap((extension) => [
+          `${target}/_index${extension}`,
+          `${target}/index${extension}`,
+        ])),
+  ]
+
+  return items.find((item) =>
+    candidates.some((candidate) => item.files.includes(candidate))
+  )
+}
+
+function getPackageName(specifier: string) {
+  if (specifier.startsWith("node:")) {
+    return null
+  }
+
+  const [scopeOrName, name] = specifier.split("/")
+  if (builtinModules.includes(scopeOrName)) {
+    return null
+  }
+
+  return scopeOrName.startsWith("@") ? `${scopeOrName}/${name}` : scopeOrName
+}
+
+// transformImport expects "@/registry/tiptap-ui/..." and "@/registry/hooks/...".
+function toRegistryPath(file: string) {
+  return `registry/${file.replace(/^components\//, "")}`
+}
+
+function toRegistrySpecifier(target: string) {
+  return `@/${toRegistryPath(target)}`
+}
+
+function isSourceFile(file: string) {
+  return SOURCE_EXTENSIONS.includes(path.extname(file))
+}
+
+function isStyleFile(file: string) {
+  return STYLE_EXTENSIONS.includes(path.extname(file))
+}
+
+function stripExtension(file: string) {
+  const extension = path.extname(file)
+  return SOURCE_EXTENSIONS.includes(extension)
+    ? file.slice(0, -extension.length)
+    : file
+}
@@ -1,5 +1,6 @@
 import os from "os"
 import path from "path"
+import { pipeline } from "stream/promises"
 import fs from "fs-extra"
 import { execa } from "execa"
 import { z } from "zod"
@@ -11,6 +12,7 @@ import select from "@/src/inquirer/select"
 import { colors } from "@/src/utils/colors"
 import { getPackageManager } from "@/src/utils/get-package-manager"
 import { handleError } from "@/src/utils/handle-error"
+import { httpFetch } from "@/src/utils/http"
 import { logger } from "@/src/utils/logger"
 import { spinner } from "@/src/utils/spinner"
 import chalk from "chalk"
@@ -398,14 +400,17 @@ async function downloadAndExtractFramework(projectPath: string) {
   await fs.ensureDir(frameworkPath)
 
   // Download framework
-  const response = await fetch(MONOREPO_FRAMEWORK_URL)
+  const response = await httpFetch(MONOREPO_FRAMEWORK_URL, {
+    cwd: projectPath,
+    stream: true,
+  })
   if (!response.ok) {
     throw new Error(`Failed to download framework: ${response.statusText}`)
   }
 
   // Write the tar file
   const tarPath = path.resolve(frameworkPath, "framework.tar.gz")
-  await fs.writeFile(tarPath, Buffer.from(await response.arrayBuffer()))
+  await pipeline(response.body!, fs.createWriteStream(tarPath))
 
   // Extract framework
   await execa("tar", [
@@ -0,0 +1,512 @@
+import { existsSync, promises as fs } from "fs"
+import path from "path"
+import fg from "fast-glob"
+import semver from "semver"
+import { loadConfig } from "tsconfig-paths"
+import { type PackageJson } from "type-fest"
+import { colors } from "@/src/utils/colors"
+import {
+  formatConfigIssues,
+  getConfig,
+  rawConfigSchema,
+  type Config,
+} from "@/src/utils/get-config"
+import { getPackageInfo } from "@/src/utils/get-package-info"
+import { getPackageManager } from "@/src/utils/get-package-manager"
+import { resolveImport } from "@/src/utils/resolve-import"
+
+export type DoctorFinding = {
+  level: "error" | "warning"
+  message: string
+  fix: string
+}
+
+export type DoctorCheck = {
+  title: string
+  findings: DoctorFinding[]
+}
+
+type DoctorContext = {
+  cwd: string
+  packageJson: PackageJson | null
+  packageManager: Awaited<ReturnType<typeof getPackageManager>>
+  aliases: Partial<Config["aliases"]> | null
+  config: Config | null
+}
+
+const SASS_COMPILERS = ["sass-embedded", "sass"]
+
+// Partials every template stylesheet relies on, relative to the styles alias.
+const GLOBAL_STYLE_PARTIALS = ["_variables.scss", "_keyframe-animations.scss"]
+
+// App entry points and global stylesheets across the supported frameworks.
+const STYLE_ENTRY_PATTERNS = [
+  "{src/,}app/{layout,root,globals,global}.*",
+  "{src/,}pages/_app.*",
+  "{src/,}routes/__root.*",
+  "{src/,}{main,index,App,app,root}.{ts,tsx,js,jsx}",
+  "{src/,}{index,globals,global,app,App,main,styles}.{css,scss,sass}",
+  "{src/,}styles/*.{css,scss,sass}",
+  "resources/{js,css}/app.*",
+]
+
+const STYLESHEET_IGNORE = [
+  "**/node_modules/**",
+  "**/.next/**",
+  "**/dist/**",
+  "**/build/**",
+  "**/public/**",
+]
+
+/**
+ * Runs every check against the project in `cwd`
+ */
+export async function runDoctorChecks(cwd: string): Promise<DoctorCheck[]> {
+  const context: DoctorContext = {
+    cwd,
+    packageJson: getPackageInfo(cwd, false),
+    packageManager: await getPackageManager(cwd),
+    aliases: null,
+    config: null,
+  }
+
+  const checks = [await checkConfig(context), await checkAliases(context)]
+
+  if (!context.packageJson) {
+    checks.push({
+      title: "package.json",
+      findings: [
+        {
+          level: "error",
+          message: `No package.json found in ${colors.blue(cwd)}.`,
+          fix: "Run the command from the root of your app.",
+        },
+      ],
+    })
+    return checks
+  }
+
+  checks.push(
+    await checkTiptapVersions(context),
+    await checkReact(context),
+    await checkSass(context),
+    await checkGlobalStyles(context)
+  )
+
+  return checks
+}
+
+async function checkConfig(context: DoctorContext): Promise<DoctorCheck> {
+  const title = "components.json"
+  const configPath = path.join(context.cwd, "components.json")
+
+  if (!existsSync(configPath)) {
+    context.config = await getConfig(context.cwd).catch(() => null)
+    context.aliases = context.config?.aliases ?? null
+    return {
+      title,
+      findings: [
+        {
+          level: "warning",
+          message: "No components.json found. The default aliases are assumed.",
+          fix: "Run `tiptap init` to write one.",
+        },
+      ],
+    }
+  }
+
+  let raw: unknown
+  try {
+    raw = JSON.parse(await fs.readFile(configPath, "utf-8"))
+  } catch (error) {
+    return {
+      title,
+      findings: [
+        {
+          level: "error",
+          message: `components.json is not valid JSON. ${
+            error instanceof Error ? error.message : ""
+          }`.trim(),
+          fix: "Fix the syntax error, or delete the file and run `tiptap init`.",
+        },
+      ],
+    }
+  }
+
+  const result = rawConfigSchema.safeParse(raw)
+  if (!result.success) {
+    return {
+      title,
+      findings: formatConfigIssues(result.error).map((message) => ({
+        level: "error",
+        message,
+        fix: "Fix the value in components.json, or delete the file and run `tiptap init`.",
+      })),
+    }
+  }
+
+  context.aliases = result.data.aliases
+  // Unresolved aliases make this throw. They are reported by the alias check.
+  context.config = await getConfig(context.cwd).catch(() => null)
+
+  return { title, findings: [] }
+}
+
+async function checkAliases(context: DoctorContext): Promise<DoctorCheck> {
+  const title = "Import aliases"
+  const tsConfig = await loadConfig(context.cwd)
+
+  if (tsConfig.resultType === "failed") {
+    return {
+      title,
+      findings: [
+        {
+          level: "error",
+          message: `No tsconfig.json or jsconfig.json found. ${
+            tsConfig.message ?? ""
+          }`.trim(),
+          fix: 'Create a tsconfig.json with `"compilerOptions": { "baseUrl": ".", "paths": { "@/*": ["./src/*"] } }`.',
+        },
+      ],
+    }
+  }
+
+  const findings: DoctorFinding[] = []
+  for (const [key, alias] of Object.entries(context.aliases ?? {})) {
+    // With a baseUrl, tsconfig-paths resolves anything through an implicit
+    // "*" entry, so the alias must match a declared paths pattern.
+    if (
+      !alias ||
+      (matchesPathsPattern(alias, tsConfig.paths) &&
+        (await resolveImport(alias, tsConfig)))
+    ) {
+      continue
+    }
+
+    const prefix = alias.split("/")[0]
+    findings.push({
+      level: "error",
+      message: `aliases.${key} (${colors.blue(
+        alias
+      )}) does not resolve with the paths in tsconfig.json.`,
+      fix: `Add a "${prefix}/*" entry to compilerOptions.paths, or change aliases.${key} in components.json.`,
+    })
+  }
+
+  return { title, findings }
+}
+
+async function checkTiptapVersions(
+  context: DoctorContext
+): Promise<DoctorCheck> {
+  const title = "Tiptap versions"
+  const packages = Object.keys(getDeclaredDependencies(context)).filter(
+    (name) => name.startsWith("@tiptap/") && name !== "@tiptap/cli"
+  )
+
+  const majors = new Map<number, string[]>()
+  for (const name of packages) {
+    const version = await getPackageVersion(context, name)
+    if (!version) {
+      continue
+    }
+
+    const major = semver.major(version)
+    majors.set(major, [...(majors.get(major) ?? []), name])
+  }
+
+  if (majors.size <= 1) {
+    return { title, findings: [] }
+  }
+
+  const latest = Math.max(...majors.keys())
+  const outdated = [...majors.entries()]
+    .filter(([major]) => major !== latest)
+    .flatMap(([, names]) => names)
+
+  return {
+    title,
+    findings: [
+      {
+        level: "error",
+        message: `@tiptap packages span several major versions: ${[
+          ...majors.entries(),
+        ]
+          .map(([major, names]) => `v${major} (${names.join(", ")})`)
+          .join(", ")}.`,
+        fix: `${getAddCommand(context)} ${outdated
+          .map((name) => `${name}@^${latest}`)
+          .join(" ")}`,
+      },
+    ],
+  }
+}
+
+async function checkReact(context: DoctorContext): Promise<DoctorCheck> {
+  const title = "React"
+  const react = await getPackageVersion(context, "react")
+
+  if (!react) {
+    return {
+      title,
+      findings: [
+        {
+          level: "error",
+          message: "react is not installed.",
+          fix: `${getAddCommand(context)} react react-dom`,
+        },
+      ],
+    }
+  }
+
+  const findings: DoctorFinding[] = []
+  const reactDom = await getPackageVersion(context, "react-dom")
+  if (reactDom && semver.major(reactDom) !== semver.major(react)) {
+    findings.push({
+      level: "error",
+      message: `react ${react} and react-dom ${reactDom} are on different major versions.`,
+      fix: `${getAddCommand(context)} react-dom@^${semver.major(react)}`,
+    })
+  }
+
+  const peerRange = (await readInstalledPackage(context.cwd, "@tiptap/react"))
+    ?.peerDependencies?.react
+  if (peerRange && !semver.satisfies(react, peerRange)) {
+    const major = getHighestMajor(peerRange) ?? semver.major(react)
+    findings.push({
+      level: "error",
+      message: `@tiptap/react requires react ${colors.blue(
+        peerRange
+      )}, but ${react} is installed.`,
+      fix: `${getAddCommand(context)} react@^${major} react-dom@^${major}`,
+    })
+  }
+
+  return { title, findings }
+}
+
+async function checkSass(context: DoctorContext): Promise<DoctorCheck> {
+  const title = "Sass compiler"
+  if (
+    !context.config ||
+    context.config.style === "css" ||
+    !(await hasScssFiles(context.config))
+  ) {
+    return { title, findings: [] }
+  }
+
+  const dependencies = getDeclaredDependencies(context)
+  const compiler = SASS_COMPILERS.find((name) => dependencies[name])
+
+  if (!compiler) {
+    return {
+      title,
+      findings: [
+        {
+          level: "error",
+          message:
+            "The installed components use SCSS, but no sass compiler is listed in package.json.",
+          fix: `${getAddCommand(context, true)} sass-embedded`,
+        },
+      ],
+    }
+  }
+
+  if (!(await readInstalledPackage(context.cwd, compiler))) {
+    return {
+      title,
+      findings: [
+        {
+          level: "error",
+          message: `${compiler} is listed in package.json but not installed.`,
+          fix: `${context.packageManager} install`,
+        },
+      ],
+    }
+  }
+
+  return { title, findings: [] }
+}
+
+async function checkGlobalStyles(context: DoctorContext): Promise<DoctorCheck> {
+  const title = "Global styles"
+  if (!context.config) {
+    return { title, findings: [] }
+  }
+
+  const stylesDir = context.config.resolvedPaths.styles
+  // In "css" mode the partials are installed compiled.
+  const isCss = context.config.style === "css"
+  const partials = GLOBAL_STYLE_PARTIALS.map((partial) =>
+    isCss ? partial.replace(/\.scss$/, ".css") : partial
+  ).filter((partial) => existsSync(path.join(stylesDir, partial)))
+  if (!partials.length) {
+    return { title, findings: [] }
+  }
+
+  // Only entry files, the styles alias and installed templates import the
+  // partials, so the rest of the project is not read.
+  const [entries, styles, templates] = await Promise.all([
+    fg.glob(STYLE_ENTRY_PATTERNS, {
+      cwd: context.cwd,
+      absolute: true,
+      ignore: STYLESHEET_IGNORE,
+    }),
+    fg.glob("*.{scss,sass,css}", {
+      cwd: stylesDir,
+      absolute: true,
+      ignore: partials,
+    }),
+    fg.glob("**/*.{scss,sass,css,ts,tsx,js,jsx}", {
+      cwd: path.join(
+        context.config.resolvedPaths.components,
+        "tiptap-templates"
+      ),
+      absolute: true,
+      ignore: STYLESHEET_IGNORE,
+    }),
+  ])
+  // Entry patterns such as "styles/*" also match the partials themselves.
+  const partialPaths = partials.map((partial) => path.join(stylesDir, partial))
+  const sources = Array.from(
+    new Set([...entries, ...styles, ...templates])
+  ).filter((source) => !partialPaths.includes(path.resolve(source)))
+
+  // The first global stylesheet found is most likely the one to import from.
+  const globalStylesheet = sources
+    .filter((source) => !templates.includes(source))
+    .find((source) => /\.(scss|sass|css)$/.test(source))
+  const importFrom = globalStylesheet
+    ? path.dirname(globalStylesheet)
+    : path.dirname(stylesDir)
+
+  const patterns = new Map(
+    partials.map((partial) => {
+      const stem = partial.replace(/^_/, "").replace(/\.s?css$/, "")
+      return [
+        partial,
+        new RegExp(
+          `(@use|@import|import)\\s+["'][^"']*\\/_?${stem}(\\.s?css)?["']`
+        ),
+      ]
+    })
+  )
+  const missing = new Set(partials)
+  for (const source of sources) {
+    if (!missing.size) {
+      break
+    }
+
+    const content = await fs.readFile(source, "utf-8")
+    for (const partial of missing) {
+      if (patterns.get(partial)!.test(content)) {
+        missing.delete(partial)
+      }
+    }
+  }
+
+  const findings: DoctorFinding[] = []
+  for (const partial of missing) {
+    const stem = partial.replace(/^_/, "").replace(/\.s?css$/, "")
+
+    // Plain CSS imports need the exact file name.
+    let relative = path
+      .relative(importFrom, path.join(stylesDir, isCss ? partial : stem))
+      .split(path.sep)
+      .join("/")
+    if (!relative.startsWith(".")) {
+      relative = `./${relative}`
+    }
+    const rule = `${isCss ? "@import" : "@use"} "${relative}";`
+
+    findings.push({
+      level: "error",
+      message: `${colors.blue(
+        partial
+      )} is installed but not imported by any stylesheet.`,
+      fix: globalStylesheet
+        ? `Add \`${rule}\` to the top of ${path.relative(
+            context.cwd,
+            globalStylesheet
+          )}.`
+        : `Add \`${rule}\` to your global stylesheet.`,
+    })
+  }
+
+  return { title, findings }
+}
+
+function matchesPathsPattern(alias: string, paths: Record<string, string[]>) {
+  return Object.keys(paths).some((pattern) => {
+    const [prefix, suffix = ""] = pattern.split("*")
+    return pattern.includes("*")
+      ? alias.startsWith(prefix) && alias.endsWith(suffix)
+      : alias === pattern
+  })
+}
+
+/**
+ * The newest major a range allows, e.g. 18 for "^17.0.0 || ^18.0.0"
+ */
+function getHighestMajor(range: string) {
+  const majors = new semver.Range(range).set.flatMap((comparators) => {
+    const version = semver.minVersion(
+      comparators.map((comparator) => comparator.value).join(" ")
+    )
+    return version ? [version.major] : []
+  })
+
+  return majors.length ? Math.max(...majors) : null
+}
+
+function getDeclaredDependencies(context: DoctorContext) {
+  return {
+    ...context.packageJson?.dependencies,
+    ...context.packageJson?.devDependencies,
+  } as Record<string, string>
+}
+
+/**
+ * The installed version, falling back to the lowest version the declared
+ * range allows when node_modules has not been installed
+ */
+async function getPackageVersion(context: DoctorContext, name: string) {
+  const installed = await readInstalledPackage(context.cwd, name)
+  if (installed?.version) {
+    return installed.version
+  }
+
+  const range = getDeclaredDependencies(context)[name]
+  return semver.validRange(range) ? semver.minVersion(range)?.version : null
+}
+
+async function readInstalledPackage(cwd: string, name: string) {
+  for (let dir = cwd; ; dir = path.dirname(dir)) {
+    const packageJsonPath = path.join(dir, "node_modules", name, "package.json")
+    if (existsSync(packageJsonPath)) {
+      return JSON.parse(
+        await fs.readFile(packageJsonPath, "utf-8")
+      ) as PackageJson
+    }
+
+    if (path.dirname(dir) === dir) {
+      return null
+    }
+  }
+}
+
+async function hasScssFiles(config: Config) {
+  const files = await fg.glob("**/*.scss", {
+    cwd: config.resolvedPaths.components,
+    ignore: STYLESHEET_IGNORE,
+  })
+
+  return files.length > 0 || existsSync(config.resolvedPaths.styles)
+}
+
+function getAddCommand(context: DoctorContext, dev = false) {
+  const command = context.packageManager === "npm" ? "install" : "add"
+  const devFlag = context.packageManager === "npm" ? "--save-dev" : "-D"
+
+  return `${context.packageManager} ${command}${dev ? ` ${devFlag}` : ""}`
+}
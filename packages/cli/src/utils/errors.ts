@@ -9,3 +9,21 @@ export const COMPONENT_URL_UNAUTHORIZED = "9"
 export const COMPONENT_URL_FORBIDDEN = "10"
 export const COMPONENT_URL_BAD_REQUEST = "11"
 export const COMPONENT_URL_INTERNAL_SERVER_ERROR = "12"
+export const NETWORK_ERROR = "13"
+export const COMPONENT_URL_RATE_LIMITED = "14"
+export const OFFLINE_CACHE_MISS = "15"
+export const INVALID_REGISTRY_ITEM = "16"
+
+/**
+ * A failed registry request. The process exits with the numeric code, so
+ * scripts can tell a missing item (8) from an outage (12).
+ */
+export class RegistryError extends Error {
+  constructor(
+    message: string,
+    readonly code: string
+  ) {
+    super(message)
+    this.name = "RegistryError"
+  }
+}
@@ -1,4 +1,6 @@
+import { promises as fs } from "fs"
 import path from "path"
+import { colors } from "@/src/utils/colors"
 import { resolveImport } from "@/src/utils/resolve-import"
 import { cosmiconfig } from "cosmiconfig"
 import fg from "fast-glob"
@@ -18,27 +20,99 @@ export const DEFAULT_TIPTAP_UI_PRIMITIVES = "@/components/tiptap-ui-primitive"
 export const DEFAULT_TIPTAP_UI_UTILS = "@/components/tiptap-ui-utils"
 export const DEFAULT_STYLES = "@/styles"
 
+// Generated from rawConfigSchema at build time and published with the package.
+export const CONFIG_SCHEMA_URL =
+  "https://unpkg.com/@tiptap/cli/dist/schema.json"
+
 const explorer = cosmiconfig("components", {
   searchPlaces: ["components.json"],
 })
 
-export const rawConfigSchema = z.object({
-  rsc: z.coerce.boolean().default(false),
-  tsx: z.coerce.boolean().default(true),
-  aliases: z.object({
-    components: z.string(),
-    contexts: z.string().optional(),
-    hooks: z.string().optional(),
-    tiptapIcons: z.string().optional(),
-    lib: z.string().optional(),
-    tiptapExtensions: z.string().optional(),
-    tiptapNodes: z.string().optional(),
-    tiptapUi: z.string().optional(),
-    tiptapUiPrimitives: z.string().optional(),
-    tiptapUiUtils: z.string().optional(),
-    styles: z.string().optional(),
+const registryUrlSchema = z
+  .string()
+  .regex(/\{name\}/, "Registry URLs must include the {name} placeholder.")
+
+export const registryConfigItemSchema = z.union([
+  registryUrlSchema,
+  z.object({
+    url: registryUrlSchema,
+    params: z.record(z.string(), z.string()).optional(),
+    headers: z.record(z.string(), z.string()).optional(),
   }),
-})
+])
+
+export const registryConfigSchema = z.record(
+  z
+    .string()
+    .regex(/^@[^/]+$/, 'Registry names must start with "@", e.g. "@acme".'),
+  registryConfigItemSchema
+)
+
+export const rawConfigSchema = z
+  .object({
+    $schema: z.string().optional(),
+    rsc: z.coerce
+      .boolean()
+      .default(false)
+      .describe("Whether the project uses React Server Components."),
+    tsx: z.coerce
+      .boolean()
+      .default(true)
+      .describe("Whether components are written as TypeScript."),
+    style: z
+      .enum(["scss", "css"])
+      .default("scss")
+      .describe(
+        'How component styles are installed. "css" compiles the SCSS sources to plain CSS while installing, which needs the "sass" package.'
+      ),
+    iconLibrary: z
+      .enum(["tiptap", "lucide", "heroicons"])
+      .default("tiptap")
+      .describe(
+        'Where icons come from. "lucide" and "heroicons" replace the bundled icons that have a match in that library.'
+      ),
+    prefix: z
+      .string()
+      .regex(
+        /^[a-z][a-z0-9]*(-[a-z0-9]+)*$/i,
+        'Prefixes must start with a letter and contain only letters, digits and single hyphens, e.g. "acme".'
+      )
+      .optional()
+      .describe(
+        'Replaces "tt" in CSS variables (--tt-*) and "tiptap" in class names (tiptap-*) of installed components.'
+      ),
+    aliases: z
+      .object({
+        components: z.string(),
+        contexts: z.string().optional(),
+        hooks: z.string().optional(),
+        tiptapIcons: z.string().optional(),
+        lib: z.string().optional(),
+        tiptapExtensions: z.string().optional(),
+        tiptapNodes: z.string().optional(),
+        tiptapUi: z.string().optional(),
+        tiptapUiPrimitives: z.string().optional(),
+        tiptapUiUtils: z.string().optional(),
+        styles: z.string().optional(),
+      })
+      .strict()
+      .describe(
+        'Import aliases from tsconfig.json paths, e.g. "@/components", that decide where each kind of item is installed.'
+      ),
+    registries: registryConfigSchema
+      .optional()
+      .describe(
+        'Extra registries by namespace. Items are added as "@namespace/name".'
+      ),
+    publicKey: z
+      .string()
+      .optional()
+      .describe(
+        "ed25519 key (PEM, or base64 raw/SPKI) the registry index must be signed with."
+      ),
+  })
+  // Misspelled keys, e.g. "aliasse", are reported instead of dropped.
+  .strict()
 
 export const configSchema = rawConfigSchema.extend({
   resolvedPaths: z.object({
@@ -61,6 +135,8 @@ export const workspaceConfigSchema = z.record(configSchema)
 
 export type RawConfig = z.infer<typeof rawConfigSchema>
 
+export type RegistryConfigItem = z.infer<typeof registryConfigItemSchema>
+
 export type Config = z.infer<typeof configSchema>
 
 export async function getConfig(cwd: string) {
@@ -87,7 +163,7 @@ export async function getConfig(cwd: string) {
       },
     })
   } else {
-    config = rawConfigSchema.parse(res.config)
+    config = parseRawConfig(res.config, res.filepath)
 
     config.aliases = {
       components: config.aliases.components ?? DEFAULT_COMPONENTS,
@@ -109,6 +185,27 @@ export async function getConfig(cwd: string) {
   return await resolveConfigPaths(cwd, config)
 }
 
+/**
+ * Reads components.json as written, without defaults. Returns null when the
+ * project has none.
+ */
+export async function getRawConfig(cwd: string) {
+  const res = await explorer.search(cwd)
+  return res ? parseRawConfig(res.config, res.filepath) : null
+}
+
+/**
+ * Validates the config and writes it to components.json
+ */
+export async function writeConfig(cwd: string, config: RawConfig) {
+  const { $schema, ...rest } = rawConfigSchema.parse(config)
+  await fs.writeFile(
+    path.resolve(cwd, "components.json"),
+    `${JSON.stringify({ $schema: $schema ?? CONFIG_SCHEMA_URL, ...rest }, null, 2)}\n`,
+    "utf-8"
+  )
+}
+
 export async function resolveConfigPaths(cwd: string, config: RawConfig) {
   // Read tsconfig.json.
   const tsConfig = await loadConfig(cwd)
@@ -121,7 +218,7 @@ export async function resolveConfigPaths(cwd: string, config: RawConfig) {
     )
   }
 
-  return configSchema.parse({
+  const result = configSchema.safeParse({
     ...config,
     resolvedPaths: {
       cwd,
@@ -187,6 +284,120 @@ export async function resolveConfigPaths(cwd: string, config: RawConfig) {
         : path.resolve(cwd, "styles"),
     },
   })
+
+  if (!result.success) {
+    throw new Error(
+      formatConfigError(result.error, path.resolve(cwd, "components.json"))
+    )
+  }
+
+  return result.data
+}
+
+/**
+ * Validates components.json, throwing an error that names each invalid key
+ */
+export function parseRawConfig(config: unknown, filepath: string) {
+  const result = rawConfigSchema.safeParse(config)
+  if (!result.success) {
+    throw new Error(formatConfigError(result.error, filepath))
+  }
+
+  return result.data
+}
+
+export function formatConfigError(error: z.ZodError, filepath: string) {
+  const lines = formatConfigIssues(error).map((line) => `  - ${line}`)
+
+  return `Invalid configuration in ${colors.blue(filepath)}:\n${lines.join(
+    "\n"
+  )}`
+}
+
+/**
+ * One line per invalid key, e.g. `aliases.components: expected string,
+ * received number`. Unresolved paths are reported against their alias.
+ */
+export function formatConfigIssues(error: z.ZodError) {
+  return getIssueLines(error.issues).map(({ key, message }) => {
+    const [root, alias] = key.split(".")
+    if (root === "resolvedPaths") {
+      return `${colors.blue(
+        `aliases.${alias}`
+      )}: does not resolve to a directory. Add a matching entry to "paths" in tsconfig.json.`
+    }
+
+    return `${colors.blue(key || "(root)")}: ${message}`
+  })
+}
+
+function getIssueLines(
+  issues: z.ZodIssue[]
+): { key: string; message: string }[] {
+  return issues.flatMap((issue) => {
+    if (issue.code === z.ZodIssueCode.invalid_union) {
+      // Report the branch whose type matched, e.g. an object with a bad url.
+      const matchingBranch = issue.unionErrors.find((unionError) =>
+        unionError.issues.every(
+          (unionIssue) =>
+            unionIssue.code !== z.ZodIssueCode.invalid_type ||
+            unionIssue.path.length > issue.path.length
+        )
+      )
+      if (matchingBranch) {
+        return getIssueLines(matchingBranch.issues)
+      }
+
+      const typeIssues = issue.unionErrors.flatMap((unionError) =>
+        unionError.issues.flatMap((unionIssue) =>
+          unionIssue.code === z.ZodIssueCode.invalid_type ? [unionIssue] : []
+        )
+      )
+      return [
+        {
+          key: formatIssuePath(issue.path),
+          message: `expected ${typeIssues
+            .map(({ expected }) => expected)
+            .join(" or ")}, received ${typeIssues[0]?.received}.`,
+        },
+      ]
+    }
+
+    if (issue.code === z.ZodIssueCode.unrecognized_keys) {
+      return issue.keys.map((key) => ({
+        key: formatIssuePath([...issue.path, key]),
+        message: "is not a known setting.",
+      }))
+    }
+
+    if (issue.code === z.ZodIssueCode.invalid_type) {
+      return [
+        {
+          key: formatIssuePath(issue.path),
+          message:
+            issue.received === "undefined"
+              ? `is required, expected ${issue.expected}.`
+              : `expected ${issue.expected}, received ${issue.received}.`,
+        },
+      ]
+    }
+
+    return [{ key: formatIssuePath(issue.path), message: issue.message }]
+  })
+}
+
+function formatIssuePath(keys: (string | number)[]) {
+  return keys.reduce<string>((result, key) => {
+    if (typeof key === "number") {
+      return `${result}[${key}]`
+    }
+
+    if (!/^[A-Za-z_$][\w$]*$/.test(key)) {
+      return `${result}["${key}"]`
+    }
+
+    return result ? `${result}.${key}` : key
+  }, "")
 }
 
 // Note: we can check for -workspace.yaml or "workspace" in package.json.
@@ -0,0 +1,62 @@
+import { existsSync } from "fs"
+import { Config } from "@/src/utils/get-config"
+import { getProjectInfo } from "@/src/utils/get-project-info"
+import { readLockfile } from "@/src/utils/lockfile"
+import { getRegistryIndex } from "@/src/utils/registry"
+import {
+  registryItemFileSchema,
+  type RegistryItem,
+} from "@/src/utils/registry/schema"
+import { resolveTargetFilePath } from "@/src/utils/updaters/update-files"
+import { z } from "zod"
+
+type InstalledItem = Pick<RegistryItem, "name" | "type">
+
+/**
+ * Returns the installed registry items, read from the lockfile when present
+ */
+export async function getInstalledItems(
+  config: Config
+): Promise<InstalledItem[]> {
+  const lockfile = await readLockfile(config.resolvedPaths.cwd)
+
+  if (lockfile) {
+    return Object.entries(lockfile.items).map(([name, item]) => ({
+      name,
+      type: item.type,
+    }))
+  }
+
+  return await detectInstalledItems(config)
+}
+
+/**
+ * Returns the registry index entries that have at least one file on disk
+ */
+async function detectInstalledItems(config: Config): Promise<InstalledItem[]> {
+  const index = await getRegistryIndex(config)
+
+  if (!index) {
+    return []
+  }
+
+  const projectInfo = await getProjectInfo(config.resolvedPaths.cwd)
+
+  return index.filter((entry) => {
+    // Index entries may list files as plain paths. Assume the item type.
+    const files: z.infer<typeof registryItemFileSchema>[] = (
+      entry.files ?? []
+    ).map((file) =>
+      typeof file === "string" ? { path: file, type: entry.type } : file
+    )
+
+    return files.some((file) => {
+      try {
+        const filePath = resolveTargetFilePath(file, files, config, projectInfo)
+        return !!filePath && existsSync(filePath)
+      } catch (error) {
+        return false
+      }
+    })
+  })
+}
@@ -6,8 +6,20 @@ import fs from "fs-extra"
 import { loadConfig } from "tsconfig-paths"
 import {
   Config,
+  DEFAULT_COMPONENTS,
+  DEFAULT_CONTEXTS,
+  DEFAULT_HOOKS,
+  DEFAULT_LIB,
+  DEFAULT_STYLES,
+  DEFAULT_TIPTAP_EXTENSIONS,
+  DEFAULT_TIPTAP_ICONS,
+  DEFAULT_TIPTAP_NODES,
+  DEFAULT_TIPTAP_UI,
+  DEFAULT_TIPTAP_UI_PRIMITIVES,
+  DEFAULT_TIPTAP_UI_UTILS,
   RawConfig,
   getConfig,
+  getRawConfig,
   resolveConfigPaths,
 } from "@/src/utils/get-config"
 
@@ -165,35 +177,41 @@ export async function getProjectConfig(
   defaultProjectInfo: ProjectInfo | null = null
 ): Promise<Config | null> {
   const [existingConfig, projectInfo] = await Promise.all([
-    getConfig(cwd),
+    getRawConfig(cwd),
     !defaultProjectInfo
       ? getProjectInfo(cwd)
       : Promise.resolve(defaultProjectInfo),
   ])
 
   if (existingConfig) {
-    return existingConfig
+    return await getConfig(cwd)
   }
 
   if (!projectInfo) {
     return null
   }
 
+  // The defaults, rewritten to the project's own alias prefix.
+  const aliasPrefix = projectInfo.aliasPrefix ?? "@"
+  const withPrefix = (alias: string) => alias.replace(/^@/, aliasPrefix)
+
   const config: RawConfig = {
     rsc: projectInfo.isRSC,
     tsx: projectInfo.isTsx,
+    style: "scss",
+    iconLibrary: "tiptap",
     aliases: {
-      components: `${projectInfo.aliasPrefix}/components`,
-      contexts: `${projectInfo.aliasPrefix}/contexts`,
-      hooks: `${projectInfo.aliasPrefix}/hooks`,
-      tiptapIcons: `${projectInfo.aliasPrefix}/components/tiptap-icons`,
-      lib: `${projectInfo.aliasPrefix}/lib`,
-      tiptapExtensions: `${projectInfo.aliasPrefix}/components/tiptap-extensions`,
-      tiptapNodes: `${projectInfo.aliasPrefix}/components/tiptap-nodes`,
-      tiptapUi: `${projectInfo.aliasPrefix}/components/tiptap-ui`,
-      tiptapUiPrimitives: `${projectInfo.aliasPrefix}/components/tiptap-ui-primitives`,
-      tiptapUiUtils: `${projectInfo.aliasPrefix}/components/tiptap-ui-utils`,
-      styles: `${projectInfo.aliasPrefix}/styles`,
+      components: withPrefix(DEFAULT_COMPONENTS),
+      contexts: withPrefix(DEFAULT_CONTEXTS),
+      hooks: withPrefix(DEFAULT_HOOKS),
+      tiptapIcons: withPrefix(DEFAULT_TIPTAP_ICONS),
+      lib: withPrefix(DEFAULT_LIB),
+      tiptapExtensions: withPrefix(DEFAULT_TIPTAP_EXTENSIONS),
+      tiptapNodes: withPrefix(DEFAULT_TIPTAP_NODES),
+      tiptapUi: withPrefix(DEFAULT_TIPTAP_UI),
+      tiptapUiPrimitives: withPrefix(DEFAULT_TIPTAP_UI_PRIMITIVES),
+      tiptapUiUtils: withPrefix(DEFAULT_TIPTAP_UI_UTILS),
+      styles: withPrefix(DEFAULT_STYLES),
     },
   }
 
@@ -1,7 +1,12 @@
 import { logger } from "@/src/utils/logger"
 import { z } from "zod"
 import { colors } from "@/src/utils/colors"
+import { RegistryError } from "@/src/utils/errors"
 
+/**
+ * Prints the error and exits with a non-zero code. Registry errors exit with
+ * their own code, everything else with 1.
+ */
 export function handleError(error: unknown) {
   logger.error(
     `Something went wrong. Please check the error below for more details.`
@@ -11,7 +16,7 @@ export function handleError(error: unknown) {
   if (typeof error === "string") {
     logger.error(error)
     logger.break()
-    process.exit(0)
+    process.exit(1)
   }
 
   if (error instanceof z.ZodError) {
@@ -20,15 +25,21 @@ export function handleError(error: unknown) {
       logger.error(`- ${colors.blue(key)}: ${value}`)
     }
     logger.break()
-    process.exit(0)
+    process.exit(1)
+  }
+
+  if (error instanceof RegistryError) {
+    logger.error(error.message)
+    logger.break()
+    process.exit(Number(error.code))
   }
 
   if (error instanceof Error) {
     logger.error(error.message)
     logger.break()
-    process.exit(0)
+    process.exit(1)
   }
 
   logger.break()
-  process.exit(0)
+  process.exit(1)
 }
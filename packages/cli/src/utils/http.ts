@@ -0,0 +1,305 @@
+import http from "http"
+import https from "https"
+import { Transform } from "stream"
+import tls from "tls"
+import fs from "fs-extra"
+import { HttpProxyAgent } from "http-proxy-agent"
+import { HttpsProxyAgent } from "https-proxy-agent"
+import fetch, { Response, type RequestInit } from "node-fetch"
+import { colors } from "@/src/utils/colors"
+import { logger } from "@/src/utils/logger"
+import { getNpmConfig } from "@/src/utils/npmrc"
+
+type HttpSettings = {
+  httpProxy?: string
+  httpsProxy?: string
+  noProxy: string[]
+  ca?: string[]
+  strictSsl: boolean
+}
+
+export type HttpRequestInit = RequestInit & {
+  // The project whose .npmrc supplies proxy and CA settings.
+  cwd?: string
+  // Milliseconds, instead of TIPTAP_HTTP_TIMEOUT.
+  timeout?: number
+  // Leaves the body unread for downloads. The timeout then only applies
+  // while no data arrives, so slow links still finish.
+  stream?: boolean
+}
+
+const DEFAULT_TIMEOUT = 30 // seconds
+const DEFAULT_RETRIES = 3
+const RETRY_BASE_DELAY = 500 // milliseconds
+const MAX_RETRY_AFTER = 60 * 1000 // milliseconds
+
+const httpOptions = {
+  timeout: Number(process.env.TIPTAP_HTTP_TIMEOUT ?? DEFAULT_TIMEOUT) * 1000,
+  retries: Number(process.env.TIPTAP_HTTP_RETRIES ?? DEFAULT_RETRIES),
+}
+
+const settingsCache = new Map<string, Promise<HttpSettings>>()
+const agentCache = new Map<string, http.Agent>()
+
+/**
+ * Every HTTP request of the CLI goes through here, so proxy and CA settings
+ * from the environment and .npmrc apply to registry, auth and download alike.
+ * GET and HEAD requests are retried on network errors, timeouts, 5xx and 429.
+ * The last response is returned once retries run out. Unless streamed, bodies
+ * are read into memory within the timeout, so a stalled body times out as
+ * well and the bodies of retried responses never hold on to their sockets.
+ */
+export async function httpFetch(url: string, init: HttpRequestInit = {}) {
+  const {
+    cwd = process.cwd(),
+    timeout = httpOptions.timeout,
+    stream = false,
+    ...requestInit
+  } = init
+  const agent = await getAgent(new URL(url), cwd)
+  const method = (requestInit.method ?? "GET").toUpperCase()
+  const retries = ["GET", "HEAD"].includes(method) ? httpOptions.retries : 0
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const response = await fetchWithTimeout(
+        url,
+        { ...requestInit, agent },
+        { timeout, stream }
+      )
+      const delay = getRetryDelay(response, attempt)
+      if (delay === null || attempt >= retries) {
+        return response
+      }
+
+      if (stream) {
+        await response.arrayBuffer().catch(() => undefined)
+      }
+      await sleep(delay)
+    } catch (error) {
+      if (attempt >= retries) {
+        throw error
+      }
+
+      await sleep(getBackoff(attempt))
+    }
+  }
+}
+
+async function fetchWithTimeout(
+  url: string,
+  init: RequestInit,
+  options: { timeout: number; stream: boolean }
+) {
+  const controller = new AbortController()
+  const timer = setTimeout(() => controller.abort(), options.timeout)
+  const getTimeoutError = () =>
+    new Error(`The request timed out after ${options.timeout / 1000}s.`)
+
+  try {
+    const response = await fetch(url, { ...init, signal: controller.signal })
+    const responseInit = {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    }
+
+    if (!options.stream || !response.body) {
+      const body = Buffer.from(await response.arrayBuffer())
+      clearTimeout(timer)
+      return new Response(body, responseInit)
+    }
+
+    // Every chunk restarts the timer, which ends with the body.
+    const body = new Transform({
+      transform(chunk, _encoding, callback) {
+        timer.refresh()
+        callback(null, chunk)
+      },
+      flush(callback) {
+        clearTimeout(timer)
+        callback()
+      },
+    })
+    response.body
+      .on("error", (error) => {
+        clearTimeout(timer)
+        body.destroy(controller.signal.aborted ? getTimeoutError() : error)
+      })
+      .pipe(body)
+
+    return new Response(body, responseInit)
+  } catch (error) {
+    clearTimeout(timer)
+    if (controller.signal.aborted) {
+      throw getTimeoutError()
+    }
+
+    throw error
+  }
+}
+
+/**
+ * Milliseconds to wait before retrying, or null when the response is final
+ */
+function getRetryDelay(response: Response, attempt: number) {
+  if (response.status === 429) {
+    const retryAfter = parseRetryAfter(response.headers.get("retry-after"))
+    if (retryAfter === null) {
+      return getBackoff(attempt)
+    }
+
+    // Waiting minutes would look like a hang. Report the limit instead.
+    return retryAfter <= MAX_RETRY_AFTER ? retryAfter : null
+  }
+
+  return response.status >= 500 ? getBackoff(attempt) : null
+}
+
+/**
+ * Retry-After is either a number of seconds or an HTTP date
+ */
+export function parseRetryAfter(value: string | null) {
+  if (!value) {
+    return null
+  }
+
+  const seconds = Number(value)
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000)
+  }
+
+  const date = Date.parse(value)
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now())
+}
+
+function getBackoff(attempt: number) {
+  return RETRY_BASE_DELAY * 2 ** attempt * (1 + Math.random() / 2)
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+async function getAgent(
+  url: URL,
+  cwd: string
+): Promise<http.Agent | undefined> {
+  if (!settingsCache.has(cwd)) {
+    settingsCache.set(cwd, getHttpSettings(cwd))
+  }
+  const settings = await settingsCache.get(cwd)!
+
+  const proxy = shouldBypassProxy(url, settings.noProxy)
+    ? undefined
+    : url.protocol === "https:"
+      ? settings.httpsProxy
+      : settings.httpProxy
+  const hasTlsOptions = !!settings.ca || !settings.strictSsl
+
+  if (!proxy && (url.protocol !== "https:" || !hasTlsOptions)) {
+    return undefined
+  }
+
+  const key = `${cwd}\0${url.protocol}\0${proxy ?? ""}`
+  let agent = agentCache.get(key)
+  if (!agent) {
+    const agentOptions = {
+      ca: settings.ca,
+      rejectUnauthorized: settings.strictSsl,
+    }
+    // Plain http targets are forwarded by the proxy rather than tunneled.
+    agent =
+      url.protocol !== "https:"
+        ? new HttpProxyAgent(proxy!)
+        : proxy
+          ? new HttpsProxyAgent(proxy, agentOptions)
+          : new https.Agent(agentOptions)
+    agentCache.set(key, agent)
+  }
+
+  return agent
+}
+
+/**
+ * Environment variables win over .npmrc, matching npm itself
+ */
+async function getHttpSettings(cwd: string): Promise<HttpSettings> {
+  const npmConfig = await getNpmConfig(cwd)
+  const getNpmValue = (key: string) => {
+    const value = npmConfig[key]
+    return value && value !== "null" && value !== "false" ? value : undefined
+  }
+
+  const httpProxy =
+    process.env.HTTP_PROXY || process.env.http_proxy || getNpmValue("proxy")
+  const httpsProxy =
+    process.env.HTTPS_PROXY ||
+    process.env.https_proxy ||
+    getNpmValue("https-proxy") ||
+    httpProxy
+  const noProxy = (
+    process.env.NO_PROXY ??
+    process.env.no_proxy ??
+    getNpmValue("noproxy") ??
+    ""
+  )
+    .split(/[\s,]+/)
+    .filter(Boolean)
+
+  const extraCa: string[] = []
+  for (const [source, file] of [
+    ["NODE_EXTRA_CA_CERTS", process.env.NODE_EXTRA_CA_CERTS],
+    ["cafile in .npmrc", getNpmValue("cafile")],
+  ]) {
+    if (!file) {
+      continue
+    }
+
+    try {
+      extraCa.push(await fs.readFile(file, "utf8"))
+    } catch {
+      logger.warn(
+        `Could not read the CA certificates at ${colors.blue(
+          file
+        )} (${source}). Continuing without them.`
+      )
+    }
+  }
+
+  const inlineCa = getNpmValue("ca")
+  if (inlineCa) {
+    extraCa.push(inlineCa.replace(/\\n/g, "\n"))
+  }
+
+  return {
+    httpProxy,
+    httpsProxy,
+    noProxy,
+    // Passing `ca` replaces Node's bundled roots, so keep them alongside.
+    ca: extraCa.length ? [...tls.rootCertificates, ...extraCa] : undefined,
+    strictSsl: npmConfig["strict-ssl"] !== "false",
+  }
+}
+
+/**
+ * Matches no_proxy entries: "*", hosts, ".domain" suffixes and host:port
+ */
+export function shouldBypassProxy(url: URL, noProxy: string[]) {
+  const hostname = url.hostname.toLowerCase()
+  const port = url.port || (url.protocol === "https:" ? "443" : "80")
+
+  return noProxy.some((entry) => {
+    if (entry === "*") {
+      return true
+    }
+
+    const [host, entryPort] = entry.toLowerCase().split(":")
+    if (entryPort && entryPort !== port) {
+      return false
+    }
+
+    const domain = host.replace(/^\*?\./, "")
+    return hostname === domain || hostname.endsWith(`.${domain}`)
+  })
+}
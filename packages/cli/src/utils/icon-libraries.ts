@@ -0,0 +1,166 @@
+import path from "path"
+import { type Config } from "@/src/utils/get-config"
+import {
+  type RegistryItem,
+  type registryItemFileSchema,
+} from "@/src/utils/registry/schema"
+import { z } from "zod"
+
+type IconLibrary = {
+  // The npm package to install.
+  dependency: string
+  // The module the icons are imported from.
+  importPath: string
+  // Registry icon module names mapped to the library's export.
+  icons: Record<string, string>
+}
+
+export const ICON_LIBRARIES: Record<
+  Exclude<Config["iconLibrary"], "tiptap">,
+  IconLibrary
+> = {
+  lucide: {
+    dependency: "lucide-react",
+    importPath: "lucide-react",
+    icons: {
+      "align-center-icon": "AlignCenter",
+      "align-justify-icon": "AlignJustify",
+      "align-left-icon": "AlignLeft",
+      "align-right-icon": "AlignRight",
+      "arrow-left-icon": "ArrowLeft",
+      "ban-icon": "Ban",
+      "blockquote-icon": "TextQuote",
+      "bold-icon": "Bold",
+      "chevron-down-icon": "ChevronDown",
+      "close-icon": "X",
+      "code-block-icon": "SquareCode",
+      "code2-icon": "CodeXml",
+      "corner-down-left-icon": "CornerDownLeft",
+      "external-link-icon": "ExternalLink",
+      "heading-icon": "Heading",
+      "heading-one-icon": "Heading1",
+      "heading-two-icon": "Heading2",
+      "heading-three-icon": "Heading3",
+      "heading-four-icon": "Heading4",
+      "heading-five-icon": "Heading5",
+      "heading-six-icon": "Heading6",
+      "highlighter-icon": "Highlighter",
+      "image-plus-icon": "ImagePlus",
+      "italic-icon": "Italic",
+      "link-icon": "Link",
+      "list-icon": "List",
+      "list-ordered-icon": "ListOrdered",
+      "list-todo-icon": "ListTodo",
+      "moon-star-icon": "MoonStar",
+      "redo2-icon": "Redo2",
+      "strike-icon": "Strikethrough",
+      "subscript-icon": "Subscript",
+      "sun-icon": "Sun",
+      "superscript-icon": "Superscript",
+      "trash-icon": "Trash2",
+      "underline-icon": "Underline",
+      "undo2-icon": "Undo2",
+    },
+  },
+  heroicons: {
+    dependency: "@heroicons/react",
+    importPath: "@heroicons/react/24/outline",
+    icons: {
+      "align-justify-icon": "Bars4Icon",
+      "align-left-icon": "Bars3BottomLeftIcon",
+      "align-right-icon": "Bars3BottomRightIcon",
+      "arrow-left-icon": "ArrowLeftIcon",
+      "ban-icon": "NoSymbolIcon",
+      "bold-icon": "BoldIcon",
+      "chevron-down-icon": "ChevronDownIcon",
+      "close-icon": "XMarkIcon",
+      "code-block-icon": "CodeBracketSquareIcon",
+      "code2-icon": "CodeBracketIcon",
+      "corner-down-left-icon": "ArrowTurnDownLeftIcon",
+      "external-link-icon": "ArrowTopRightOnSquareIcon",
+      "heading-one-icon": "H1Icon",
+      "heading-two-icon": "H2Icon",
+      "heading-three-icon": "H3Icon",
+      "italic-icon": "ItalicIcon",
+      "link-icon": "LinkIcon",
+      "list-icon": "ListBulletIcon",
+      "list-ordered-icon": "NumberedListIcon",
+      "moon-star-icon": "MoonIcon",
+      "redo2-icon": "ArrowUturnRightIcon",
+      "strike-icon": "StrikethroughIcon",
+      "sun-icon": "SunIcon",
+      "trash-icon": "TrashIcon",
+      "underline-icon": "UnderlineIcon",
+      "undo2-icon": "ArrowUturnLeftIcon",
+    },
+  },
+}
+
+const ICON_IMPORT_REGEX = /^@\/registry\/tiptap-icons\/([^/]+)$/
+
+/**
+ * The library export replacing a registry icon module, or null when the
+ * bundled icon is used
+ */
+export function getMappedIcon(moduleName: string, config: Config) {
+  if (config.iconLibrary === "tiptap") {
+    return null
+  }
+
+  const library = ICON_LIBRARIES[config.iconLibrary]
+  const name = library.icons[moduleName]
+  return name ? { name, importPath: library.importPath } : null
+}
+
+/**
+ * Same as getMappedIcon, for an `@/registry/tiptap-icons/*` import
+ */
+export function getMappedIconImport(moduleSpecifier: string, config: Config) {
+  const match = moduleSpecifier.match(ICON_IMPORT_REGEX)
+  return match ? getMappedIcon(match[1], config) : null
+}
+
+/**
+ * Icon files replaced by the icon library are not installed
+ */
+export function isMappedIconFile(
+  file: z.infer<typeof registryItemFileSchema>,
+  config: Config
+) {
+  return (
+    file.type === "registry:icon" &&
+    !!getMappedIcon(path.basename(file.path).replace(/\.[jt]sx?$/, ""), config)
+  )
+}
+
+/**
+ * Adds the icon library to the dependencies of items importing mapped icons
+ */
+export function withIconLibraryDependencies<T extends RegistryItem>(
+  items: T[],
+  config: Config
+): T[] {
+  if (config.iconLibrary === "tiptap") {
+    return items
+  }
+
+  const { dependency } = ICON_LIBRARIES[config.iconLibrary]
+  const importRegex = /["'](@\/registry\/tiptap-icons\/[^"']+)["']/g
+
+  return items.map((item) => {
+    const importsMappedIcon = (item.files ?? []).some((file) =>
+      Array.from(file.content?.matchAll(importRegex) ?? []).some(
+        ([, specifier]) => !!getMappedIconImport(specifier, config)
+      )
+    )
+
+    return importsMappedIcon
+      ? {
+          ...item,
+          dependencies: Array.from(
+            new Set([...(item.dependencies ?? []), dependency])
+          ),
+        }
+      : item
+  })
+}
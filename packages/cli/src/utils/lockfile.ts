@@ -0,0 +1,167 @@
+import { createHash } from "crypto"
+import { existsSync, promises as fs } from "fs"
+import path from "path"
+import { colors } from "@/src/utils/colors"
+import { Config } from "@/src/utils/get-config"
+import {
+  registryItemTypeSchema,
+  type RegistryResolvedItem,
+} from "@/src/utils/registry/schema"
+import { parseItemSpecifier } from "@/src/utils/registry/versions"
+import { z } from "zod"
+
+export const LOCKFILE_NAME = "tiptap-lock.json"
+
+export const lockfileFileSchema = z.object({
+  path: z.string(),
+  target: z.string(),
+  hash: z.string(),
+})
+
+export const lockfileItemSchema = z.object({
+  type: registryItemTypeSchema,
+  version: z.string().optional(),
+  source: z.string(),
+  registryDependencies: z.array(z.string()).default([]),
+  dependencies: z.array(z.string()).default([]),
+  devDependencies: z.array(z.string()).default([]),
+  files: z.array(lockfileFileSchema).default([]),
+})
+
+export const lockfileSchema = z.object({
+  lockfileVersion: z.literal(1),
+  // Items added explicitly, as opposed to pulled in as registryDependencies.
+  requested: z.array(z.string()).default([]),
+  items: z.record(z.string(), lockfileItemSchema),
+})
+
+export type Lockfile = z.infer<typeof lockfileSchema>
+
+export type LockfileItem = z.infer<typeof lockfileItemSchema>
+
+/**
+ * A file as written by updateFiles, with its absolute target path
+ */
+export type ResolvedFile = {
+  path: string
+  target: string
+  hash: string
+}
+
+export function getLockfilePath(cwd: string) {
+  return path.join(cwd, LOCKFILE_NAME)
+}
+
+/**
+ * Hashes transformed file content in subresource integrity format
+ */
+export function hashContent(content: string) {
+  return `sha256-${createHash("sha256").update(content).digest("base64")}`
+}
+
+export async function readLockfile(cwd: string): Promise<Lockfile | null> {
+  const lockfilePath = getLockfilePath(cwd)
+
+  if (!existsSync(lockfilePath)) {
+    return null
+  }
+
+  const content = await fs.readFile(lockfilePath, "utf-8")
+
+  let json: unknown
+  try {
+    json = JSON.parse(content)
+  } catch (error) {
+    throw new Error(
+      `Failed to parse ${colors.blue(lockfilePath)}. ${
+        error instanceof Error ? error.message : String(error)
+      }\nFix the JSON, or delete the file and add your components again.`
+    )
+  }
+
+  const result = lockfileSchema.safeParse(json)
+  if (!result.success) {
+    const issues = result.error.issues.map(
+      (issue) =>
+        `  - ${colors.blue(issue.path.join(".") || "(root)")}: ${issue.message}`
+    )
+    throw new Error(
+      `Invalid lockfile ${colors.blue(lockfilePath)}:\n${issues.join("\n")}`
+    )
+  }
+
+  return result.data
+}
+
+export async function writeLockfile(cwd: string, lockfile: Lockfile) {
+  // Sort items so the lockfile diffs cleanly between installs.
+  const items = Object.fromEntries(
+    Object.entries(lockfile.items).sort(([a], [b]) => a.localeCompare(b))
+  )
+
+  await fs.writeFile(
+    getLockfilePath(cwd),
+    `${JSON.stringify({ ...lockfile, items }, null, 2)}\n`,
+    "utf-8"
+  )
+}
+
+/**
+ * Records installed registry items and the files written for them
+ */
+export async function updateLockfile(
+  config: Config,
+  items: RegistryResolvedItem[],
+  resolvedFiles: ResolvedFile[],
+  requested: string[] = []
+) {
+  const cwd = config.resolvedPaths.cwd
+  const lockfile: Lockfile = (await readLockfile(cwd)) ?? {
+    lockfileVersion: 1,
+    requested: [],
+    items: {},
+  }
+
+  lockfile.requested = Array.from(
+    new Set([
+      ...lockfile.requested,
+      ...requested.map((name) => parseItemSpecifier(name).name),
+    ])
+  ).sort()
+
+  const filesByPath = new Map(resolvedFiles.map((file) => [file.path, file]))
+
+  for (const item of items) {
+    // Files the user chose to keep stay recorded as they were installed.
+    const lockedFiles = new Map(
+      (lockfile.items[item.name]?.files ?? []).map((file) => [file.path, file])
+    )
+    const files = (item.files ?? [])
+      .map((file) => {
+        const resolvedFile = filesByPath.get(file.path)
+        return resolvedFile
+          ? {
+              ...resolvedFile,
+              target: path.relative(cwd, resolvedFile.target),
+            }
+          : lockedFiles.get(file.path)
+      })
+      .filter((file): file is z.infer<typeof lockfileFileSchema> => !!file)
+
+    lockfile.items[item.name] = {
+      type: item.type,
+      version: item.version,
+      source: item.source,
+      registryDependencies: (item.registryDependencies ?? []).map(
+        (dependency) => parseItemSpecifier(dependency).name
+      ),
+      dependencies: item.dependencies ?? [],
+      devDependencies: item.devDependencies ?? [],
+      files,
+    }
+  }
+
+  await writeLockfile(cwd, lockfile)
+
+  return lockfile
+}
@@ -1,22 +1,31 @@
 import { colors } from "@/src/utils/colors"
 
+let print = console.log
+
+/**
+ * Sends log output to stderr, so that stdout only carries the --json output
+ */
+export function configureLogger(options: { json?: boolean }) {
+  print = options.json ? console.error : console.log
+}
+
 export const logger = {
   error(...args: unknown[]) {
-    console.log(colors.red(args.join(" ")))
+    print(colors.red(args.join(" ")))
   },
   warn(...args: unknown[]) {
-    console.log(colors.yellow(args.join(" ")))
+    print(colors.yellow(args.join(" ")))
   },
   info(...args: unknown[]) {
-    console.log(colors.blue(args.join(" ")))
+    print(colors.blue(args.join(" ")))
   },
   success(...args: unknown[]) {
-    console.log(colors.green(args.join(" ")))
+    print(colors.green(args.join(" ")))
   },
   log(...args: unknown[]) {
-    console.log(args.join(" "))
+    print(args.join(" "))
   },
   break() {
-    console.log("")
+    print("")
   },
 }
@@ -0,0 +1,81 @@
+import os from "os"
+import path from "path"
+import fs from "fs-extra"
+
+const NPM_ENV_PREFIX = "npm_config_"
+
+/**
+ * Parses .npmrc content into key/value pairs. Quotes are stripped, ${VAR}
+ * is expanded and `key[]=` entries are joined with newlines, which keeps
+ * `ca[]` certificates a valid PEM bundle.
+ */
+export function parseNpmrcValues(content: string) {
+  const values: Record<string, string> = {}
+
+  for (const line of content.split(/\r?\n/)) {
+    const trimmedLine = line.trim()
+    if (!trimmedLine || /^[#;]/.test(trimmedLine)) {
+      continue
+    }
+
+    const index = trimmedLine.indexOf("=")
+    if (index === -1) {
+      continue
+    }
+
+    const rawKey = trimmedLine.substring(0, index).trim()
+    const value = trimmedLine
+      .substring(index + 1)
+      .trim()
+      .replace(/^(["'])(.*)\1$/, "$2")
+      .replace(/\$\{(\w+)\}/g, (_, name) => process.env[name] ?? "")
+
+    if (rawKey.endsWith("[]")) {
+      const key = rawKey.slice(0, -2)
+      values[key] = values[key] ? `${values[key]}\n${value}` : value
+    } else {
+      values[rawKey] = value
+    }
+  }
+
+  return values
+}
+
+/**
+ * Reads and parses an .npmrc file. Missing files yield no values.
+ */
+export async function readNpmrcFile(npmrcPath: string) {
+  if (!fs.existsSync(npmrcPath)) {
+    return {}
+  }
+
+  return parseNpmrcValues(await fs.readFile(npmrcPath, "utf8"))
+}
+
+/**
+ * The npm config for a project, in npm's order of precedence: npm_config_*
+ * environment variables, then the project .npmrc, then the user .npmrc
+ */
+export async function getNpmConfig(cwd: string) {
+  const userconfig =
+    process.env.npm_config_userconfig ??
+    process.env.NPM_CONFIG_USERCONFIG ??
+    path.join(os.homedir(), ".npmrc")
+
+  const values = {
+    ...(await readNpmrcFile(userconfig)),
+    ...(await readNpmrcFile(path.join(cwd, ".npmrc"))),
+  }
+
+  for (const [name, value] of Object.entries(process.env)) {
+    if (value !== undefined && name.toLowerCase().startsWith(NPM_ENV_PREFIX)) {
+      const key = name
+        .slice(NPM_ENV_PREFIX.length)
+        .toLowerCase()
+        .replace(/_/g, "-")
+      values[key] = value
+    }
+  }
+
+  return values
+}
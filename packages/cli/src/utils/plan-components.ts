@@ -0,0 +1,206 @@
+import { existsSync, promises as fs } from "fs"
+import path from "path"
+import {
+  getCustomTargetDirs,
+  getWorkspaceTargetConfig,
+  isWorkspaceInstall,
+} from "@/src/utils/add-components"
+import { colors } from "@/src/utils/colors"
+import {
+  getWorkspaceConfig,
+  type Config,
+  type RawConfig,
+} from "@/src/utils/get-config"
+import { getProjectInfo } from "@/src/utils/get-project-info"
+import { logger } from "@/src/utils/logger"
+import { registryResolveItemsTree } from "@/src/utils/registry"
+import {
+  getNormalizedFileContent,
+  resolveMovedModules,
+  resolveTargetFilePath,
+  transformFileContent,
+} from "@/src/utils/updaters/update-files"
+import { filterStyleDevDependencies } from "@/src/utils/updaters/update-dev-dependencies"
+
+export type PlannedFileAction = "create" | "overwrite" | "prompt" | "skip"
+
+export type ComponentsPlan = {
+  cwd: string
+  // Only set by init, which resolves the config it would use.
+  config?: RawConfig
+  items: {
+    name: string
+    type: string
+    source: string
+    description?: string
+    registryDependencies: string[]
+    dependencies: string[]
+    devDependencies: string[]
+  }[]
+  files: {
+    item: string
+    path: string
+    target: string
+    action: PlannedFileAction
+    // Only set with `includeContent`.
+    content?: string
+  }[]
+  dependencies: string[]
+  devDependencies: string[]
+}
+
+/**
+ * Resolves what adding the given components would do, without writing anything
+ */
+export async function planComponents(
+  components: string[],
+  config: Config,
+  options: {
+    overwrite?: boolean
+    includeContent?: boolean
+    path?: string
+  } = {}
+): Promise<ComponentsPlan | null> {
+  const tree = await registryResolveItemsTree(components, config)
+  if (!tree) {
+    return null
+  }
+
+  const cwd = config.resolvedPaths.cwd
+  const workspaceConfig = await getWorkspaceConfig(config)
+  const targetDirs = getCustomTargetDirs(
+    tree.items,
+    components,
+    config,
+    options.path
+  )
+  const movedModules = resolveMovedModules(
+    tree.files ?? [],
+    config,
+    await getProjectInfo(cwd),
+    targetDirs
+  )
+
+  const plan: ComponentsPlan = {
+    cwd,
+    items: tree.items.map((item) => ({
+      name: item.name,
+      type: item.type,
+      source: item.source,
+      description: item.description,
+      registryDependencies: item.registryDependencies ?? [],
+      dependencies: item.dependencies ?? [],
+      devDependencies: item.devDependencies ?? [],
+    })),
+    files: [],
+    dependencies: Array.from(new Set(tree.dependencies)),
+    devDependencies: filterStyleDevDependencies(
+      Array.from(new Set(tree.devDependencies)),
+      config
+    ),
+  }
+
+  for (const item of tree.items) {
+    const targetConfig = isWorkspaceInstall(config, workspaceConfig)
+      ? getWorkspaceTargetConfig(item, config, workspaceConfig)
+      : config
+    const projectInfo = await getProjectInfo(targetConfig.resolvedPaths.cwd)
+    const files = item.files ?? []
+
+    for (const file of files) {
+      if (!file.content) {
+        continue
+      }
+
+      const filePath = resolveTargetFilePath(
+        file,
+        files,
+        targetConfig,
+        projectInfo,
+        targetDirs.get(file.path)
+      )
+      if (!filePath) {
+        continue
+      }
+
+      const content = await transformFileContent(file, targetConfig, {
+        targetPath: filePath,
+        movedModules,
+      })
+      plan.files.push({
+        item: item.name,
+        path: file.path,
+        target: path.relative(cwd, filePath),
+        action: await getPlannedFileAction(filePath, content, options),
+        ...(options.includeContent && { content }),
+      })
+    }
+  }
+
+  return plan
+}
+
+async function getPlannedFileAction(
+  filePath: string,
+  content: string,
+  options: { overwrite?: boolean }
+): Promise<PlannedFileAction> {
+  if (!existsSync(filePath)) {
+    return "create"
+  }
+
+  const [normalizedExisting, normalizedNew] = await Promise.all([
+    fs.readFile(filePath, "utf-8").then(getNormalizedFileContent),
+    getNormalizedFileContent(content),
+  ])
+
+  if (normalizedExisting === normalizedNew) {
+    return "skip"
+  }
+
+  return options.overwrite ? "overwrite" : "prompt"
+}
+
+const ACTION_LABELS: Record<PlannedFileAction, string> = {
+  create: colors.green("create"),
+  overwrite: colors.yellow("overwrite"),
+  prompt: colors.magenta("prompt"),
+  skip: colors.gray("skip"),
+}
+
+/**
+ * Prints a plan as JSON on stdout, or as a readable summary
+ */
+export function printPlan(plan: ComponentsPlan, options: { json?: boolean }) {
+  if (options.json) {
+    process.stdout.write(`${JSON.stringify(plan, null, 2)}\n`)
+    return
+  }
+
+  logger.break()
+  logger.info(`Dry run. Nothing was written to ${plan.cwd}.`)
+  logger.break()
+
+  logger.log(`Components (${plan.items.length}):`)
+  for (const item of plan.items) {
+    logger.log(`  - ${item.name} ${colors.gray(`(${item.type})`)}`)
+  }
+
+  logger.break()
+  logger.log(`Files (${plan.files.length}):`)
+  for (const file of plan.files) {
+    logger.log(`  - ${ACTION_LABELS[file.action]} ${file.target}`)
+  }
+
+  if (plan.dependencies.length) {
+    logger.break()
+    logger.log(`Dependencies: ${plan.dependencies.join(", ")}`)
+  }
+
+  if (plan.devDependencies.length) {
+    logger.break()
+    logger.log(`Dev dependencies: ${plan.devDependencies.join(", ")}`)
+  }
+
+  logger.break()
+}
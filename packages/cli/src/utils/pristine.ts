@@ -0,0 +1,71 @@
+import { existsSync, promises as fs } from "fs"
+import path from "path"
+import { Config } from "@/src/utils/get-config"
+import { mergeDiff3 } from "node-diff3"
+
+// Untouched registry copies of installed files, used as the merge base.
+const PRISTINE_DIR = path.join(".tiptap", "pristine")
+
+export function getPristineFilePath(config: Config, filePath: string) {
+  return path.join(
+    config.resolvedPaths.cwd,
+    PRISTINE_DIR,
+    path.relative(config.resolvedPaths.cwd, filePath)
+  )
+}
+
+export async function readPristineFile(config: Config, filePath: string) {
+  const pristinePath = getPristineFilePath(config, filePath)
+
+  if (!existsSync(pristinePath)) {
+    return null
+  }
+
+  return await fs.readFile(pristinePath, "utf-8")
+}
+
+export async function writePristineFile(
+  config: Config,
+  filePath: string,
+  content: string
+) {
+  const pristinePath = getPristineFilePath(config, filePath)
+
+  await fs.mkdir(path.dirname(pristinePath), { recursive: true })
+  await fs.writeFile(pristinePath, content, "utf-8")
+}
+
+/**
+ * Three-way merges the registry changes (base → incoming) onto the local copy.
+ * Overlapping edits are kept as git-style (diff3) conflict markers.
+ */
+export function mergeFileContent({
+  local,
+  base,
+  incoming,
+}: {
+  local: string
+  base: string
+  incoming: string
+}) {
+  const toLines = (content: string) =>
+    content.replace(/\r\n/g, "\n").split("\n")
+
+  const { conflict, result } = mergeDiff3(
+    toLines(local),
+    toLines(base),
+    toLines(incoming),
+    {
+      label: {
+        a: "local",
+        o: "pristine",
+        b: "registry",
+      },
+    }
+  )
+
+  return {
+    conflict,
+    content: result.join("\n"),
+  }
+}
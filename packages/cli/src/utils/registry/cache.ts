@@ -0,0 +1,93 @@
+import { createHash } from "crypto"
+import { existsSync, promises as fs } from "fs"
+import os from "os"
+import path from "path"
+import { z } from "zod"
+
+const DEFAULT_CACHE_TTL = 60 * 60 // seconds
+
+const cacheEntrySchema = z.object({
+  url: z.string(),
+  etag: z.string().nullable(),
+  fetchedAt: z.number(),
+  data: z.unknown(),
+})
+
+export type CacheEntry = z.infer<typeof cacheEntrySchema>
+
+const cacheOptions = {
+  offline: !!process.env.TIPTAP_OFFLINE,
+  ttl: Number(process.env.TIPTAP_CACHE_TTL ?? DEFAULT_CACHE_TTL) * 1000,
+  dir:
+    process.env.TIPTAP_CACHE_DIR ??
+    path.join(
+      process.env.XDG_CACHE_HOME ?? path.join(os.homedir(), ".cache"),
+      "tiptap",
+      "registry"
+    ),
+}
+
+export function configureRegistryCache(options: { offline?: boolean }) {
+  if (options.offline !== undefined) {
+    cacheOptions.offline = options.offline
+  }
+}
+
+export function isOffline() {
+  return cacheOptions.offline
+}
+
+/**
+ * Entries are keyed by URL and by the headers the request was sent with, so
+ * an entry fetched with a token is never served to a request without it
+ */
+function getCacheFilePath(url: string, headers: Record<string, string>) {
+  const credentials = Object.entries(headers).sort(([a], [b]) =>
+    a.localeCompare(b)
+  )
+  const key = createHash("sha256")
+    .update(JSON.stringify([url, credentials]))
+    .digest("hex")
+  return path.join(cacheOptions.dir, `${key}.json`)
+}
+
+export async function readRegistryCache(
+  url: string,
+  headers: Record<string, string>
+): Promise<CacheEntry | null> {
+  const filePath = getCacheFilePath(url, headers)
+
+  if (!existsSync(filePath)) {
+    return null
+  }
+
+  try {
+    const content = await fs.readFile(filePath, "utf-8")
+    return cacheEntrySchema.parse(JSON.parse(content))
+  } catch (error) {
+    // A corrupt entry is a cache miss.
+    return null
+  }
+}
+
+export async function writeRegistryCache(
+  url: string,
+  headers: Record<string, string>,
+  data: unknown,
+  etag: string | null
+) {
+  try {
+    await fs.mkdir(cacheOptions.dir, { recursive: true })
+    await fs.writeFile(
+      getCacheFilePath(url, headers),
+      JSON.stringify({ url, etag, fetchedAt: Date.now(), data }),
+      "utf-8"
+    )
+  } catch (error) {
+    // Caching is best effort. A read-only home directory must not break installs.
+  }
+}
+
+export function isCacheFresh(entry: CacheEntry) {
+  return Date.now() - entry.fetchedAt < cacheOptions.ttl
+}
@@ -5,22 +5,53 @@ import {
   registryIndexSchema,
   registryItemSchema,
   registryResolvedItemsTreeSchema,
+  type RegistryItem,
+  type RegistryResolvedItem,
 } from "@/src/utils/registry/schema"
-import { getAuthToken } from "@/src/utils/auth"
+import {
+  getNamespacedItemUrl,
+  getQualifiedItemName,
+  getRegistryForUrl,
+} from "@/src/utils/registry/registries"
+import {
+  parseItemSpecifier,
+  pickItemVersion,
+  type VersionConstraint,
+} from "@/src/utils/registry/versions"
+import { checkAuthStatus, getAuthToken } from "@/src/utils/auth"
 import { getPackageManager } from "@/src/utils/get-package-manager"
+import {
+  COMPONENT_URL_BAD_REQUEST,
+  COMPONENT_URL_FORBIDDEN,
+  COMPONENT_URL_INTERNAL_SERVER_ERROR,
+  COMPONENT_URL_NOT_FOUND,
+  COMPONENT_URL_RATE_LIMITED,
+  COMPONENT_URL_UNAUTHORIZED,
+  INVALID_REGISTRY_ITEM,
+  NETWORK_ERROR,
+  OFFLINE_CACHE_MISS,
+  RegistryError,
+} from "@/src/utils/errors"
+import { httpFetch } from "@/src/utils/http"
+import { type Response } from "node-fetch"
 import deepmerge from "deepmerge"
-import { HttpsProxyAgent } from "https-proxy-agent"
-import fetch from "node-fetch"
 import { z } from "zod"
 import { getProjectInfo } from "@/src/utils/get-project-info"
 import { Framework, FRAMEWORKS } from "@/src/utils/frameworks"
 import { colors } from "@/src/utils/colors"
+import { withIconLibraryDependencies } from "@/src/utils/icon-libraries"
+import {
+  isCacheFresh,
+  isOffline,
+  readRegistryCache,
+  writeRegistryCache,
+} from "@/src/utils/registry/cache"
 
 const REGISTRY_URL = process.env.REGISTRY_URL || "https://template.tiptap.dev"
 
-const agent = process.env.https_proxy
-  ? new HttpsProxyAgent(process.env.https_proxy)
-  : undefined
+// Looking the token up can spawn the package manager, so it happens once per
+// project and run instead of once per request.
+const authTokenCache = new Map<string, Promise<string | null>>()
 
 export async function getRegistryIndex(config?: Config) {
   try {
@@ -35,19 +66,9 @@ export async function getRegistryIndex(config?: Config) {
 
 export async function fetchFreeRegistry() {
   try {
-    const url = `${REGISTRY_URL}/api/registry/free`
-    const response = await fetch(url, {
-      agent,
-    })
+    const [result] = await fetchRegistry(["api/registry/free"])
 
-    if (!response.ok) {
-      throw new Error(
-        `Failed to fetch from ${colors.blue(url)}.\n${response.statusText}`
-      )
-    }
-
-    const result = (await response.json()) as string[]
-    return result
+    return z.array(z.string()).parse(result)
   } catch (error) {
     logger.error("\n")
     handleError(error)
@@ -56,71 +77,84 @@ export async function fetchFreeRegistry() {
 
 export async function fetchRegistry(paths: string[], config?: Config) {
   try {
-    let authToken = null
-    if (config) {
-      const packageManager = await getPackageManager(config.resolvedPaths.cwd)
-      authToken = await getAuthToken(packageManager, config.resolvedPaths.cwd)
-    }
+    // Without a config, a token from --token or the environment still applies.
+    const cwd = config?.resolvedPaths.cwd ?? process.cwd()
+    const authToken = await getRegistryAuthToken(cwd)
 
     const results = await Promise.all(
       paths.map(async (path) => {
         const url = getRegistryUrl(path)
 
-        // Setup headers with auth token if available
-        const headers: Record<string, string> = {}
-        if (authToken) {
+        // Configured registries bring their own headers. The Tiptap token
+        // is only ever sent to the Tiptap registry.
+        const registry = getRegistryForUrl(url, config)
+        const headers: Record<string, string> = { ...registry?.headers }
+        if (authToken && isTiptapRegistryUrl(url, config)) {
           headers["Authorization"] = `Bearer ${authToken}`
         }
 
-        const response = await fetch(url, {
-          agent,
-          headers,
-        })
+        const cached = await readRegistryCache(url, headers)
 
-        if (!response.ok) {
-          const errorMessages: { [key: number]: string } = {
-            400: "Bad request",
-            401: "Unauthorized",
-            403: "Forbidden",
-            404: "Not found",
-            500: "Internal server error",
-          }
-
-          if (response.status === 401) {
-            throw new Error(
-              `You are not authorized to access the component at ${colors.blue(
-                url
-              )}.\nPlease run 'tiptap auth login' to authenticate with the registry, or make sure your token is valid.`
+        if (isOffline()) {
+          if (!cached) {
+            throw new RegistryError(
+              `${colors.blue(url)} is not available offline.\nRun the command once without --offline to cache it.`,
+              OFFLINE_CACHE_MISS
             )
           }
 
-          if (response.status === 404) {
-            throw new Error(
-              `The component at ${colors.blue(
-                url
-              )} was not found.\nIt may not exist at the registry. Please make sure it is a valid component.`
-            )
-          }
+          return cached.data
+        }
+
+        if (cached && isCacheFresh(cached)) {
+          return cached.data
+        }
 
-          if (response.status === 403) {
-            throw new Error(
-              `You do not have access to the component at ${colors.blue(
-                url
-              )}.\nYour account may not have the required subscription plan for this component.\nPlease upgrade your subscription or use a component available in your current plan.`
+        const response = await httpFetch(url, {
+          headers: cached?.etag
+            ? { ...headers, "If-None-Match": cached.etag }
+            : headers,
+          cwd,
+        }).catch((error) => {
+          throw new RegistryError(
+            `Could not reach ${colors.blue(url)}.\n${
+              error instanceof Error ? error.message : error
+            }\nCheck your connection, or your proxy settings if you are behind one.`,
+            NETWORK_ERROR
+          )
+        })
+
+        if (response.status === 304 && cached) {
+          await writeRegistryCache(url, headers, cached.data, cached.etag)
+          return cached.data
+        }
+
+        if (!response.ok) {
+          if (response.status === 401 && headers["Authorization"]) {
+            const status = await checkAuthStatus(
+              await getPackageManager(cwd),
+              cwd
             )
+            if (status.expired) {
+              throw new RegistryError(
+                `Your Tiptap registry token expired on ${status.expires}.\nPlease run 'tiptap auth login' to renew it.`,
+                COMPONENT_URL_UNAUTHORIZED
+              )
+            }
           }
 
-          const result = await response.json()
-          const message =
-            result && typeof result === "object" && "error" in result
-              ? result.error
-              : response.statusText || errorMessages[response.status]
-          throw new Error(
-            `Failed to fetch from ${colors.blue(url)}.\n${message}`
-          )
+          throw await getRegistryResponseError(response, url)
         }
 
-        return response.json()
+        const result = await response.json()
+        await writeRegistryCache(
+          url,
+          headers,
+          result,
+          response.headers.get("etag")
+        )
+
+        return result
       })
     )
 
@@ -132,6 +166,86 @@ export async function fetchRegistry(paths: string[], config?: Config) {
   }
 }
 
+function getRegistryAuthToken(cwd: string) {
+  if (!authTokenCache.has(cwd)) {
+    authTokenCache.set(
+      cwd,
+      getPackageManager(cwd).then((packageManager) =>
+        getAuthToken(packageManager, cwd)
+      )
+    )
+  }
+
+  return authTokenCache.get(cwd)!
+}
+
+/**
+ * Whether a URL belongs to the Tiptap registry, as opposed to a registry
+ * configured in components.json
+ */
+export function isTiptapRegistryUrl(url: string, config?: Config) {
+  return !getRegistryForUrl(url, config) && url.startsWith(REGISTRY_URL)
+}
+
+/**
+ * Maps a failed registry response to an error carrying its code from
+ * utils/errors.ts. Retries have already been spent by the HTTP client.
+ */
+async function getRegistryResponseError(response: Response, url: string) {
+  switch (response.status) {
+    case 401:
+      return new RegistryError(
+        `You are not authorized to access the component at ${colors.blue(
+          url
+        )}.\nPlease run 'tiptap auth login' to authenticate with the registry, or make sure your token is valid.`,
+        COMPONENT_URL_UNAUTHORIZED
+      )
+    case 403:
+      return new RegistryError(
+        `You do not have access to the component at ${colors.blue(
+          url
+        )}.\nYour account may not have the required subscription plan for this component.\nPlease upgrade your subscription or use a component available in your current plan.`,
+        COMPONENT_URL_FORBIDDEN
+      )
+    case 404:
+      return new RegistryError(
+        `The component at ${colors.blue(
+          url
+        )} was not found.\nIt may not exist at the registry. Please make sure it is a valid component.`,
+        COMPONENT_URL_NOT_FOUND
+      )
+    case 429:
+      return new RegistryError(
+        `The registry is rate limiting requests to ${colors.blue(
+          url
+        )}.\nPlease wait a moment and try again.`,
+        COMPONENT_URL_RATE_LIMITED
+      )
+  }
+
+  const errorMessages: { [key: number]: string } = {
+    400: "Bad request",
+    500: "Internal server error",
+    502: "Bad gateway",
+    503: "Service unavailable",
+    504: "Gateway timeout",
+  }
+
+  // Proxies and load balancers answer with HTML, so the body may not be JSON.
+  const result = await response.json().catch(() => null)
+  const message =
+    result && typeof result === "object" && "error" in result
+      ? result.error
+      : response.statusText || errorMessages[response.status]
+
+  return new RegistryError(
+    `Failed to fetch from ${colors.blue(url)}.\n${message}`,
+    response.status >= 500
+      ? COMPONENT_URL_INTERNAL_SERVER_ERROR
+      : COMPONENT_URL_BAD_REQUEST
+  )
+}
+
 export async function registryResolveItemsTree(
   names: z.infer<typeof registryItemSchema>["name"][],
   config: z.infer<typeof configSchema>
@@ -147,13 +261,10 @@ export async function registryResolveItemsTree(
       names.unshift("index")
     }
 
-    const registryItems = await resolveRegistryItems(names, config)
-    const result = await fetchRegistry(registryItems, config)
-    const payload = z.array(registryItemSchema).parse(result)
-
-    if (!payload) {
-      return null
-    }
+    const payload = withIconLibraryDependencies(
+      await resolveRegistryItems(names, config),
+      config
+    )
 
     const projectInfo = await getProjectInfo(config.resolvedPaths.cwd)
     const framework = projectInfo?.framework.name as Framework["name"]
@@ -175,6 +286,7 @@ export async function registryResolveItemsTree(
       dependencies: allDependencies,
       devDependencies: filteredDevDependencies,
       files: deepmerge.all(payload.map((item) => item.files ?? [])),
+      items: payload,
     })
   } catch (error) {
     handleError(error)
@@ -182,58 +294,311 @@ export async function registryResolveItemsTree(
   }
 }
 
-async function resolveRegistryDependencies(
-  url: string,
-  config: Config
-): Promise<string[]> {
+/**
+ * Walks registryDependencies depth-first, visiting every item once.
+ * `getDependencies` returns null for items that could not be resolved.
+ */
+export async function walkRegistryDependencies(
+  names: string[],
+  getDependencies: (name: string) => Promise<string[] | null>
+) {
   const visited = new Set<string>()
-  const payload: string[] = []
+  const resolved: string[] = []
 
-  async function resolveDependencies(itemUrl: string) {
-    const url = getRegistryUrl(
-      isUrl(itemUrl) ? itemUrl : `components/${itemUrl}.json`
-    )
+  async function walk(name: string) {
+    if (visited.has(name)) {
+      return
+    }
+
+    visited.add(name)
 
-    if (visited.has(url)) {
+    const dependencies = await getDependencies(name)
+    if (!dependencies) {
       return
     }
 
-    visited.add(url)
+    resolved.push(name)
 
-    try {
-      const [result] = await fetchRegistry([url], config)
-      const item = registryItemSchema.parse(result)
-      payload.push(url)
+    for (const dependency of dependencies) {
+      await walk(dependency)
+    }
+  }
 
-      if (item.registryDependencies) {
-        for (const dependency of item.registryDependencies) {
-          await resolveDependencies(dependency)
+  for (const name of names) {
+    await walk(name)
+  }
+
+  return resolved
+}
+
+const REGISTRY_CONCURRENCY = 8
+
+/**
+ * Resolves items and their registryDependencies, fetching each level of the
+ * graph concurrently and every item once. Version ranges
+ * ("tiptap-utils@^1.2.0") from the command line and from every dependent are
+ * intersected, and the highest version that satisfies all of them is picked.
+ * Incompatible ranges and dependency cycles are reported.
+ */
+export async function resolveRegistryItems(
+  names: string[],
+  config: Config
+): Promise<RegistryResolvedItem[]> {
+  const constraints = new Map<string, VersionConstraint[]>()
+  const resolved = new Map<string, { url: string; item: RegistryItem }>()
+  const fetched = new Map<string, Promise<RegistryItem>>()
+  let index: Promise<z.infer<typeof registryIndexSchema>> | undefined
+
+  const fetchItem = (url: string) => {
+    if (!fetched.has(url)) {
+      fetched.set(
+        url,
+        fetchRegistry([url], config).then(([result]) => {
+          // A partial dependency tree would install broken components.
+          const parsed = registryItemSchema.safeParse(result)
+          if (!parsed.success) {
+            throw new RegistryError(
+              `${colors.blue(url)} did not return a valid registry item:\n${parsed.error.issues
+                .map(
+                  (issue) =>
+                    `  - ${issue.path.join(".") || "(root)"}: ${issue.message}`
+                )
+                .join("\n")}`,
+              INVALID_REGISTRY_ITEM
+            )
+          }
+
+          return parsed.data
+        })
+      )
+    }
+
+    return fetched.get(url)!
+  }
+
+  const getAvailableVersions = async (name: string) => {
+    index ??= getRegistryIndex(config).then((result) => result ?? [])
+    const entry = (await index).find((entry) => entry.name === name)
+    if (entry) {
+      return entry.versions ?? (entry.version ? [entry.version] : [])
+    }
+
+    // Items outside the index only tell us their latest version.
+    const latest = await fetchItem(getRegistryItemUrl(name, config))
+    return latest.version ? [latest.version] : []
+  }
+
+  let queue = names.map((specifier) => ({
+    specifier,
+    requiredBy: null as string | null,
+  }))
+
+  while (queue.length) {
+    // Record every range of a level before picking versions, so dependents
+    // in the same level agree on one version.
+    for (const { specifier, requiredBy } of queue) {
+      const { name, range } = parseItemSpecifier(specifier)
+      if (range) {
+        constraints.set(name, [
+          ...(constraints.get(name) ?? []),
+          { range, requiredBy },
+        ])
+      }
+    }
+
+    const level = Array.from(
+      new Set(queue.map(({ specifier }) => parseItemSpecifier(specifier).name))
+    )
+
+    const results = await mapWithConcurrency(
+      level,
+      REGISTRY_CONCURRENCY,
+      async (name) => {
+        const itemConstraints = constraints.get(name) ?? []
+        const version = itemConstraints.length
+          ? pickItemVersion(
+              name,
+              await getAvailableVersions(name),
+              itemConstraints
+            )
+          : null
+
+        const current = resolved.get(name)
+        if (current && (version === null || current.item.version === version)) {
+          return null
         }
+
+        const url = getRegistryItemUrl(name, config, version)
+        const item = await fetchItem(url)
+        if (version && item.version && item.version !== version) {
+          throw new Error(
+            `${colors.blue(url)} served ${name}@${item.version} instead of ${version}.`
+          )
+        }
+
+        return { name, url, item, replaced: !!current }
       }
-    } catch (error) {
-      console.error(
-        `Error fetching or parsing registry item at ${itemUrl}:`,
-        error
+    )
+
+    queue = []
+    for (const result of results) {
+      if (!result) {
+        continue
+      }
+
+      // A new constraint moved the item to another version, so the ranges
+      // its old version declared no longer apply.
+      if (result.replaced) {
+        for (const [dependency, dependencyConstraints] of constraints) {
+          constraints.set(
+            dependency,
+            dependencyConstraints.filter(
+              ({ requiredBy }) => requiredBy !== result.name
+            )
+          )
+        }
+      }
+
+      resolved.set(result.name, { url: result.url, item: result.item })
+      queue.push(
+        ...(result.item.registryDependencies ?? []).map((specifier) => ({
+          specifier,
+          requiredBy: result.name,
+        }))
       )
     }
   }
 
-  await resolveDependencies(url)
-  return Array.from(new Set(payload))
+  const getDependencies = (name: string) =>
+    resolved
+      .get(name)
+      ?.item.registryDependencies?.map(
+        (dependency) => parseItemSpecifier(dependency).name
+      ) ?? []
+
+  const roots = names.map((name) => parseItemSpecifier(name).name)
+  const cycle = findDependencyCycle(roots, getDependencies)
+  if (cycle) {
+    throw new Error(
+      `Circular registry dependency: ${cycle.join(" → ")}.\nThe registry items depend on each other and cannot be installed.`
+    )
+  }
+
+  // Depth-first from the requested items. This also drops items that only a
+  // replaced version of a dependent needed.
+  const ordered = await walkRegistryDependencies(roots, async (name) =>
+    resolved.has(name) ? getDependencies(name) : null
+  )
+
+  const items = ordered.map((name) => resolved.get(name)!)
+  return withRegistrySources(
+    items.map(({ item }) => item),
+    items.map(({ url }) => url),
+    config
+  )
 }
 
-// TODO: We're double-fetching here. Use a cache.
-export async function resolveRegistryItems(names: string[], config: Config) {
-  const registryDependencies: string[] = []
-  for (const name of names) {
-    const itemRegistryDependencies = await resolveRegistryDependencies(
-      name,
-      config
-    )
-    registryDependencies.push(...itemRegistryDependencies)
+/**
+ * Returns the first cycle reachable from the roots, e.g. ["a", "b", "a"]
+ */
+function findDependencyCycle(
+  roots: string[],
+  getDependencies: (name: string) => string[]
+) {
+  const done = new Set<string>()
+  const path: string[] = []
+
+  function visit(name: string): string[] | null {
+    const start = path.indexOf(name)
+    if (start !== -1) {
+      return [...path.slice(start), name]
+    }
+
+    if (done.has(name)) {
+      return null
+    }
+
+    path.push(name)
+    for (const dependency of getDependencies(name)) {
+      const cycle = visit(dependency)
+      if (cycle) {
+        return cycle
+      }
+    }
+    path.pop()
+    done.add(name)
+
+    return null
   }
 
-  return Array.from(new Set(registryDependencies))
+  for (const root of roots) {
+    const cycle = visit(root)
+    if (cycle) {
+      return cycle
+    }
+  }
+
+  return null
+}
+
+async function mapWithConcurrency<T, R>(
+  values: T[],
+  limit: number,
+  fn: (value: T) => Promise<R>
+) {
+  const results: R[] = new Array(values.length)
+  let next = 0
+
+  async function worker() {
+    while (next < values.length) {
+      const index = next++
+      results[index] = await fn(values[index])
+    }
+  }
+
+  await Promise.all(
+    Array.from({ length: Math.min(limit, values.length) }, worker)
+  )
+
+  return results
+}
+
+/**
+ * Resolves an item to its URL. "@namespace/name" goes through the registries
+ * configured in components.json, plain names through the Tiptap registry.
+ */
+export function getRegistryItemUrl(
+  name: string,
+  config?: Config,
+  version?: string | null
+) {
+  const url =
+    getNamespacedItemUrl(name, config) ??
+    getRegistryUrl(isUrl(name) ? name : `components/${name}.json`)
+
+  if (!version) {
+    return url
+  }
+
+  const versionedUrl = new URL(url)
+  versionedUrl.searchParams.set("version", version)
+  return versionedUrl.toString()
+}
+
+/**
+ * Attaches the URL each item was fetched from, and namespaces items that
+ * came from a configured registry
+ */
+function withRegistrySources(
+  items: RegistryItem[],
+  sources: string[],
+  config?: Config
+): RegistryResolvedItem[] {
+  return items.map((item, index) => ({
+    ...item,
+    name: getQualifiedItemName(item.name, sources[index], config),
+    source: sources[index],
+  }))
 }
 
 function getRegistryUrl(path: string) {
@@ -279,10 +644,9 @@ export function getRegistryTypeAliasMap() {
     ["registry:context", "contexts"],
     ["registry:hook", "hooks"],
     ["registry:lib", "lib"],
-    ["registry:context", "components"],
-    ["registry:template", "tiptapTemplates"],
+    ["registry:template", "components"],
     ["registry:component", "components"],
-    ["registry:icon", "titpapIcons"],
+    ["registry:icon", "tiptapIcons"],
     ["registry:style", "styles"],
   ])
 }
@@ -299,7 +663,7 @@ export function getRegistryParentMap(
     }
 
     item.registryDependencies.forEach((dependency) => {
-      map.set(dependency, item)
+      map.set(parseItemSpecifier(dependency).name, item)
     })
   })
 
@@ -312,7 +676,7 @@ export function getRegistryParentMap(
  * @param framework Framework name
  * @returns Filtered array of development dependencies
  */
-function filterDevDependenciesByFramework(
+export function filterDevDependenciesByFramework(
   devDependencies: unknown,
   framework: Framework["name"]
 ): string[] {
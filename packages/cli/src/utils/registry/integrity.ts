@@ -0,0 +1,188 @@
+import { createHash, createPublicKey, verify } from "crypto"
+import { colors } from "@/src/utils/colors"
+import { Config } from "@/src/utils/get-config"
+import { fetchRegistry, isTiptapRegistryUrl } from "@/src/utils/registry"
+import {
+  registryIndexSchema,
+  type RegistryResolvedItem,
+} from "@/src/utils/registry/schema"
+import { z } from "zod"
+
+export const INDEX_SIGNATURE_PATH = "r/index.json.sig"
+
+const SUPPORTED_ALGORITHMS = ["sha256", "sha384", "sha512"]
+
+// DER prefix that turns a raw 32 byte ed25519 key into an SPKI public key.
+const ED25519_SPKI_PREFIX = Buffer.from("302a300506032b6570032100", "hex")
+
+const indexSignatureSchema = z.object({
+  signature: z.string(),
+})
+
+type IndexEntry = z.infer<typeof registryIndexSchema>[number]
+
+let trustedIndex: Promise<Map<string, IndexEntry>> | undefined
+
+/**
+ * Computes the subresource integrity string ("sha256-<base64>") of a file
+ */
+export function getIntegrity(content: string, algorithm = "sha256") {
+  return `${algorithm}-${createHash(algorithm).update(content).digest("base64")}`
+}
+
+function matchesIntegrity(content: string, integrity: string) {
+  const [algorithm] = integrity.split("-", 1)
+  if (!SUPPORTED_ALGORITHMS.includes(algorithm)) {
+    return false
+  }
+
+  return getIntegrity(content, algorithm) === integrity
+}
+
+function parsePublicKey(publicKey: string) {
+  if (publicKey.trim().startsWith("-----BEGIN")) {
+    return createPublicKey(publicKey)
+  }
+
+  const der = Buffer.from(publicKey, "base64")
+  return createPublicKey({
+    key: der.length === 32 ? Buffer.concat([ED25519_SPKI_PREFIX, der]) : der,
+    format: "der",
+    type: "spki",
+  })
+}
+
+/**
+ * The index is signed in its compact JSON form, so the signature survives
+ * reformatting and the registry cache.
+ */
+export function getIndexSigningPayload(index: unknown) {
+  return Buffer.from(JSON.stringify(index))
+}
+
+/**
+ * Fetches index.json and its detached signature, verifies the signature
+ * against the pinned public key and returns the entries it vouches for
+ */
+async function getTrustedIndex(config: Config) {
+  const [index, signature] = await fetchRegistry(
+    ["index.json", INDEX_SIGNATURE_PATH],
+    config
+  )
+
+  const isValid = verify(
+    null,
+    getIndexSigningPayload(index),
+    parsePublicKey(config.publicKey!),
+    Buffer.from(indexSignatureSchema.parse(signature).signature, "base64")
+  )
+
+  if (!isValid) {
+    throw new Error(
+      `The signature of the registry index does not match the public key in components.json.\nNothing was written. The registry or a proxy in between may have been tampered with.`
+    )
+  }
+
+  return new Map(
+    registryIndexSchema.parse(index).map((entry) => [entry.name, entry])
+  )
+}
+
+/**
+ * The integrity the signed index lists for each file of an item version, or
+ * null when it does not list that version
+ */
+export function getSignedIntegrity(entry: IndexEntry, version?: string) {
+  const versionIntegrity = version ? entry.integrity?.[version] : undefined
+  if (versionIntegrity) {
+    return new Map(Object.entries(versionIntegrity))
+  }
+
+  // `files` describes the latest version only.
+  if (version && entry.version && version !== entry.version) {
+    return null
+  }
+
+  const integrity = new Map<string, string>()
+  for (const file of entry.files ?? []) {
+    if (typeof file !== "string" && file.integrity) {
+      integrity.set(file.path, file.integrity)
+    }
+  }
+
+  return integrity
+}
+
+/**
+ * Checks registry items before anything is written. Every file must match
+ * its own `integrity`. With a public key pinned in components.json, files of
+ * items from the Tiptap registry must also match the integrity its signed
+ * index lists for their version. Items from other registries are not in
+ * that index.
+ */
+export async function verifyRegistryItems(
+  items: RegistryResolvedItem[],
+  config: Config
+) {
+  const signedItems = config.publicKey
+    ? items.filter((item) => isTiptapRegistryUrl(item.source, config))
+    : []
+  if (signedItems.length) {
+    trustedIndex ??= getTrustedIndex(config)
+  }
+  const trusted = signedItems.length ? await trustedIndex : null
+
+  const failures: string[] = []
+  for (const item of items) {
+    let expected: Map<string, string> | null = null
+    if (trusted && signedItems.includes(item)) {
+      const entry = trusted.get(item.name)
+      expected = entry ? getSignedIntegrity(entry, item.version) : null
+
+      if (!expected) {
+        failures.push(
+          `${colors.blue(
+            item.version ? `${item.name}@${item.version}` : item.name
+          )} is not listed in the signed registry index.`
+        )
+        continue
+      }
+    }
+
+    for (const file of item.files ?? []) {
+      if (!file.content) {
+        continue
+      }
+
+      if (file.integrity && !matchesIntegrity(file.content, file.integrity)) {
+        failures.push(
+          `${colors.blue(file.path)} does not match its integrity hash.`
+        )
+        continue
+      }
+
+      if (!expected) {
+        continue
+      }
+
+      const fileIntegrity = expected.get(file.path)
+      if (!fileIntegrity) {
+        failures.push(
+          `${colors.blue(file.path)} is not listed in the signed registry index.`
+        )
+      } else if (!matchesIntegrity(file.content, fileIntegrity)) {
+        failures.push(
+          `${colors.blue(file.path)} does not match the signed registry index.`
+        )
+      }
+    }
+  }
+
+  if (failures.length) {
+    throw new Error(
+      `Registry files failed verification. Nothing was written.\n${failures
+        .map((failure) => `  - ${failure}`)
+        .join("\n")}`
+    )
+  }
+}
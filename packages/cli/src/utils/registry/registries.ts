@@ -0,0 +1,116 @@
+import { Config, type RegistryConfigItem } from "@/src/utils/get-config"
+import { colors } from "@/src/utils/colors"
+
+const NAMESPACED_NAME_REGEX = /^(@[^/]+)\/(.+)$/
+
+/**
+ * Splits "@acme/editor-shell" into its registry namespace and item name
+ */
+export function parseNamespacedName(name: string) {
+  const match = name.match(NAMESPACED_NAME_REGEX)
+
+  if (!match) {
+    return null
+  }
+
+  return {
+    namespace: match[1],
+    name: match[2],
+  }
+}
+
+/**
+ * Replaces ${VAR} with the environment variable, so tokens stay out of components.json
+ */
+function expandEnvVars(value: string) {
+  return value.replace(/\$\{(\w+)\}/g, (_, key) => process.env[key] ?? "")
+}
+
+function normalizeRegistryConfig(registry: RegistryConfigItem) {
+  const {
+    url,
+    params = {},
+    headers = {},
+  }: Exclude<RegistryConfigItem, string> = typeof registry === "string"
+    ? { url: registry }
+    : registry
+
+  return {
+    url: expandEnvVars(url),
+    params: Object.fromEntries(
+      Object.entries(params).map(([key, value]) => [key, expandEnvVars(value)])
+    ),
+    headers: Object.fromEntries(
+      Object.entries(headers).map(([key, value]) => [key, expandEnvVars(value)])
+    ),
+  }
+}
+
+function getConfiguredRegistries(config?: Config) {
+  return Object.entries(config?.registries ?? {}).map(
+    ([namespace, registry]) => ({
+      namespace,
+      ...normalizeRegistryConfig(registry),
+    })
+  )
+}
+
+/**
+ * Resolves "@namespace/name" through the registries in components.json.
+ * Returns null for names that are not namespaced.
+ */
+export function getNamespacedItemUrl(name: string, config?: Config) {
+  const parsed = parseNamespacedName(name)
+
+  if (!parsed) {
+    return null
+  }
+
+  const registry = getConfiguredRegistries(config).find(
+    ({ namespace }) => namespace === parsed.namespace
+  )
+
+  if (!registry) {
+    throw new Error(
+      `Unknown registry ${colors.blue(
+        parsed.namespace
+      )} for ${name}.\nAdd it to "registries" in components.json.`
+    )
+  }
+
+  const url = new URL(registry.url.replace("{name}", parsed.name))
+  for (const [key, value] of Object.entries(registry.params)) {
+    url.searchParams.set(key, value)
+  }
+
+  return url.toString()
+}
+
+/**
+ * Finds the configured registry serving a URL, matched on the part of its
+ * URL template before {name}
+ */
+export function getRegistryForUrl(url: string, config?: Config) {
+  return (
+    getConfiguredRegistries(config).find(({ url: template }) =>
+      url.startsWith(template.split("{name}")[0])
+    ) ?? null
+  )
+}
+
+/**
+ * Prefixes items fetched from a configured registry with its namespace, so
+ * "editor-shell" from @acme is tracked as "@acme/editor-shell"
+ */
+export function getQualifiedItemName(
+  name: string,
+  source: string,
+  config?: Config
+) {
+  if (parseNamespacedName(name)) {
+    return name
+  }
+
+  const registry = getRegistryForUrl(source, config)
+  return registry ? `${registry.namespace}/${name}` : name
+}
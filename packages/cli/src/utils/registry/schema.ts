@@ -29,11 +29,14 @@ export const registryItemFileSchema = z.object({
   content: z.string().optional(),
   type: registryItemTypeSchema,
   target: z.string().optional(),
+  // Subresource integrity of `content`, e.g. "sha256-<base64>".
+  integrity: z.string().optional(),
 })
 
 export const registryItemSchema = z.object({
   name: z.string(),
   type: registryItemTypeSchema,
+  version: z.string().optional(),
   description: z.string().optional(),
   dependencies: z.array(z.string()).optional(),
   devDependencies: z.array(z.string()).optional(),
@@ -51,14 +54,30 @@ export type Registry = z.infer<typeof registrySchema>
 export const registryIndexSchema = z.array(
   registryItemSchema.extend({
     files: z.array(z.union([z.string(), registryItemFileSchema])).optional(),
+    // Every published version. `version` is the latest.
+    versions: z.array(z.string()).optional(),
+    // File integrity by version and file path, vouched for by the index
+    // signature. Older indexes only list the latest in `files`.
+    integrity: z
+      .record(z.string(), z.record(z.string(), z.string()))
+      .optional(),
   })
 )
 
-export const registryResolvedItemsTreeSchema = registryItemSchema.pick({
-  dependencies: true,
-  devDependencies: true,
-  files: true,
+export const registryResolvedItemSchema = registryItemSchema.extend({
+  source: z.string(),
 })
 
+export const registryResolvedItemsTreeSchema = registryItemSchema
+  .pick({
+    dependencies: true,
+    devDependencies: true,
+    files: true,
+  })
+  .extend({
+    items: z.array(registryResolvedItemSchema),
+  })
+
 export type RegistryItem = z.infer<typeof registryItemSchema>
+export type RegistryResolvedItem = z.infer<typeof registryResolvedItemSchema>
 export type RegistryItemIndexSchema = z.infer<typeof registryIndexSchema>
@@ -0,0 +1,84 @@
+import semver from "semver"
+import { colors } from "@/src/utils/colors"
+
+export type VersionConstraint = {
+  range: string
+  // The item that declared the range, or null for ranges passed to `add`.
+  requiredBy: string | null
+}
+
+/**
+ * Splits "link-popover@^1.2.0" or "@acme/editor-shell@1.0.0" into the item
+ * name and its version range
+ */
+export function parseItemSpecifier(specifier: string) {
+  if (/^https?:\/\//.test(specifier)) {
+    return { name: specifier, range: null }
+  }
+
+  // A leading @ belongs to the namespace, not the version.
+  const separator = specifier.lastIndexOf("@")
+  if (separator <= 0) {
+    return { name: specifier, range: null }
+  }
+
+  const name = specifier.slice(0, separator)
+  const range = specifier.slice(separator + 1)
+  if (!semver.validRange(range)) {
+    throw new Error(
+      `Invalid version ${colors.blue(range)} for ${name}. Use a semver version or range, e.g. ${name}@^1.2.0.`
+    )
+  }
+
+  return { name, range }
+}
+
+/**
+ * Picks the highest available version satisfying every constraint. Returns
+ * null when nothing is constrained, meaning the latest version.
+ */
+export function pickItemVersion(
+  name: string,
+  available: string[],
+  constraints: VersionConstraint[]
+) {
+  if (!constraints.length) {
+    return null
+  }
+
+  const [version] = semver
+    .rsort(available.filter((version) => semver.valid(version)))
+    .filter((version) =>
+      constraints.every(({ range }) => semver.satisfies(version, range))
+    )
+
+  if (!version) {
+    throw new Error(formatVersionConflict(name, available, constraints))
+  }
+
+  return version
+}
+
+function formatVersionConflict(
+  name: string,
+  available: string[],
+  constraints: VersionConstraint[]
+) {
+  const requirements = constraints
+    .map(({ range, requiredBy }) =>
+      requiredBy
+        ? `  - ${requiredBy} requires ${colors.blue(range)}`
+        : `  - you requested ${colors.blue(range)}`
+    )
+    .join("\n")
+
+  return [
+    constraints.length > 1
+      ? `No version of ${colors.blue(name)} satisfies every requirement:`
+      : `No version of ${colors.blue(name)} matches:`,
+    requirements,
+    available.length
+      ? `Available versions: ${available.join(", ")}.`
+      : `The registry does not publish versions for ${name}.`,
+  ].join("\n")
+}
@@ -0,0 +1,272 @@
+import { existsSync, promises as fs } from "fs"
+import path from "path"
+import fg from "fast-glob"
+import { Config } from "@/src/utils/get-config"
+import { getPackageInfo } from "@/src/utils/get-package-info"
+import {
+  type Lockfile,
+  type LockfileItem,
+  writeLockfile,
+} from "@/src/utils/lockfile"
+import { getPristineFilePath } from "@/src/utils/pristine"
+import { walkRegistryDependencies } from "@/src/utils/registry"
+
+const SOURCE_EXTENSIONS = [
+  "ts",
+  "tsx",
+  "js",
+  "jsx",
+  "mjs",
+  "cjs",
+  "mts",
+  "cts",
+  "vue",
+  "svelte",
+  "astro",
+  "scss",
+  "sass",
+  "css",
+]
+
+const SOURCE_IGNORE = [
+  "**/node_modules/**",
+  ".next/**",
+  ".tiptap/**",
+  "dist/**",
+  "build/**",
+]
+
+// import/export ... from "x", import "x", import("x"), require("x") and
+// Sass @use/@forward/@import "x".
+const IMPORT_SPECIFIER_REGEX =
+  /(?:\bfrom|\bimport|\brequire\s*\(|\bimport\s*\(|@use|@forward|@import)\s*["']([^"']+)["']/g
+
+export type RemovalPlan = {
+  items: string[]
+  files: string[]
+  dependencies: string[]
+  devDependencies: string[]
+  // Requested for removal but still needed by a remaining component.
+  retained: { name: string; requiredBy: string[] }[]
+}
+
+/**
+ * Works out which items, files and npm packages become orphaned when the
+ * given components are removed
+ */
+export async function planRemoval(
+  lockfile: Lockfile,
+  components: string[]
+): Promise<RemovalPlan> {
+  const items = lockfile.items
+  const getDependencies = async (name: string) =>
+    items[name]?.registryDependencies ?? null
+
+  // Lockfiles written before `requested` existed: treat items nothing depends on as roots.
+  const roots = lockfile.requested.length
+    ? lockfile.requested
+    : Object.keys(items).filter(
+        (name) =>
+          !Object.values(items).some((item) =>
+            item.registryDependencies.includes(name)
+          )
+      )
+
+  const needed = new Set(
+    await walkRegistryDependencies(
+      roots.filter((name) => !components.includes(name)),
+      getDependencies
+    )
+  )
+  const candidates = await walkRegistryDependencies(components, getDependencies)
+
+  const removed = candidates.filter((name) => !needed.has(name))
+  const remaining = Object.keys(items).filter((name) => !removed.includes(name))
+
+  const collect = (names: string[], key: "dependencies" | "devDependencies") =>
+    new Set(names.flatMap((name) => items[name][key].map(getPackageName)))
+
+  const remainingTargets = new Set(
+    remaining.flatMap((name) => items[name].files.map((file) => file.target))
+  )
+  const remainingDependencies = collect(remaining, "dependencies")
+  const remainingDevDependencies = collect(remaining, "devDependencies")
+
+  return {
+    items: removed,
+    files: Array.from(
+      new Set(
+        removed.flatMap((name) => items[name].files.map((file) => file.target))
+      )
+    )
+      .filter((target) => !remainingTargets.has(target))
+      .sort(),
+    dependencies: Array.from(collect(removed, "dependencies"))
+      .filter((dependency) => !remainingDependencies.has(dependency))
+      .sort(),
+    devDependencies: Array.from(collect(removed, "devDependencies"))
+      .filter((dependency) => !remainingDevDependencies.has(dependency))
+      .sort(),
+    retained: components
+      .filter((name) => needed.has(name))
+      .map((name) => ({
+        name,
+        requiredBy: remaining.filter((other) =>
+          items[other].registryDependencies.includes(name)
+        ),
+      })),
+  }
+}
+
+/**
+ * Splits the orphaned npm packages by the workspace package their items were
+ * installed into. A package stays installed there while any item remaining in
+ * the same package still depends on it.
+ */
+export function getWorkspaceDependencies(
+  plan: RemovalPlan,
+  lockfile: Lockfile,
+  getTargetConfig: (item: LockfileItem) => Config
+) {
+  const packages = new Map<
+    string,
+    { config: Config; removed: Set<string>; remaining: Set<string> }
+  >()
+
+  for (const [name, item] of Object.entries(lockfile.items)) {
+    const targetConfig = getTargetConfig(item)
+    const cwd = targetConfig.resolvedPaths.cwd
+    const workspacePackage = packages.get(cwd) ?? {
+      config: targetConfig,
+      removed: new Set<string>(),
+      remaining: new Set<string>(),
+    }
+    packages.set(cwd, workspacePackage)
+
+    const dependencies = plan.items.includes(name)
+      ? workspacePackage.removed
+      : workspacePackage.remaining
+    for (const dependency of [...item.dependencies, ...item.devDependencies]) {
+      dependencies.add(getPackageName(dependency))
+    }
+  }
+
+  return Array.from(packages.values())
+    .map(({ config, removed, remaining }) => ({
+      config,
+      dependencies: Array.from(removed)
+        .filter((dependency) => !remaining.has(dependency))
+        .sort(),
+    }))
+    .filter(({ dependencies }) => dependencies.length)
+}
+
+/**
+ * Narrows orphaned packages to the ones that can be uninstalled: listed in
+ * package.json and not imported by any file the removal leaves behind
+ */
+export async function getUnusedDependencies(
+  dependencies: string[],
+  removedFiles: string[],
+  config: Config
+) {
+  const cwd = config.resolvedPaths.cwd
+  const packageJson = getPackageInfo(cwd, false)
+  const candidates = new Set(
+    dependencies.filter(
+      (name) =>
+        !!packageJson?.dependencies?.[name] ||
+        !!packageJson?.devDependencies?.[name]
+    )
+  )
+  if (!candidates.size) {
+    return []
+  }
+
+  const sources = await fg.glob(`**/*.{${SOURCE_EXTENSIONS.join(",")}}`, {
+    cwd,
+    absolute: true,
+    ignore: SOURCE_IGNORE,
+  })
+  const removed = new Set(removedFiles.map((file) => path.resolve(cwd, file)))
+
+  // Read one file at a time, projects can be large.
+  for (const source of sources) {
+    if (removed.has(source) || !candidates.size) {
+      continue
+    }
+
+    const content = await fs.readFile(source, "utf-8")
+    for (const [, specifier] of content.matchAll(IMPORT_SPECIFIER_REGEX)) {
+      for (const name of candidates) {
+        if (specifier === name || specifier.startsWith(`${name}/`)) {
+          candidates.delete(name)
+        }
+      }
+    }
+  }
+
+  return Array.from(candidates).sort()
+}
+
+/**
+ * Strips the version from a dependency, e.g. "@tiptap/react@^3.0.0"
+ */
+export function getPackageName(dependency: string) {
+  const separator = dependency.lastIndexOf("@")
+  return separator > 0 ? dependency.slice(0, separator) : dependency
+}
+
+/**
+ * Deletes the planned files (and their pristine copies) and drops the
+ * removed items from the lockfile
+ */
+export async function removeComponents(
+  plan: RemovalPlan,
+  lockfile: Lockfile,
+  config: Config
+) {
+  const cwd = config.resolvedPaths.cwd
+  const filesRemoved: string[] = []
+
+  for (const target of plan.files) {
+    const filePath = path.resolve(cwd, target)
+
+    for (const file of [filePath, getPristineFilePath(config, filePath)]) {
+      if (!existsSync(file)) {
+        continue
+      }
+
+      await fs.rm(file)
+      await removeEmptyDirectories(path.dirname(file), cwd)
+    }
+
+    filesRemoved.push(target)
+  }
+
+  for (const name of plan.items) {
+    delete lockfile.items[name]
+  }
+  lockfile.requested = lockfile.requested.filter(
+    (name) => !plan.items.includes(name)
+  )
+
+  await writeLockfile(cwd, lockfile)
+
+  return { filesRemoved }
+}
+
+/**
+ * Removes directories left empty by deleted files, stopping at the project root
+ */
+async function removeEmptyDirectories(dir: string, root: string) {
+  while (dir !== root && !path.relative(root, dir).startsWith("..")) {
+    const entries = await fs.readdir(dir)
+    if (entries.length) {
+      return
+    }
+
+    await fs.rmdir(dir)
+    dir = path.dirname(dir)
+  }
+}
@@ -2,7 +2,16 @@ import { promises as fs } from "fs"
 import { tmpdir } from "os"
 import path from "path"
 import { Config } from "@/src/utils/get-config"
+import {
+  compileScss,
+  transformCss,
+} from "@/src/utils/transformers/transform-css"
+import { transformIcons } from "@/src/utils/transformers/transform-icons"
 import { transformImport } from "@/src/utils/transformers/transform-import"
+import {
+  applyPrefix,
+  transformPrefix,
+} from "@/src/utils/transformers/transform-prefix"
 import { transformJsx } from "@/src/utils/transformers/transform-jsx"
 import { transformRsc } from "@/src/utils/transformers/transform-rsc"
 import { Project, ScriptKind, type SourceFile } from "ts-morph"
@@ -12,6 +21,10 @@ export type TransformOpts = {
   raw: string
   config: Config
   transformJsx?: boolean
+  // Where the file is written, needed to import relocated modules.
+  targetPath?: string
+  // Registry specifiers of modules installed outside their alias directory.
+  movedModules?: Map<string, string>
 }
 
 export type Transformer<Output = SourceFile> = (
@@ -31,14 +44,23 @@ async function createTempSourceFile(filename: string) {
 
 export async function transform(
   opts: TransformOpts,
-  transformers: Transformer[] = [transformImport, transformRsc]
+  transformers: Transformer[] = [
+    transformIcons,
+    transformImport,
+    transformCss,
+    transformPrefix,
+    transformRsc,
+  ]
 ) {
   if (
     opts.filename.endsWith(".scss") ||
     opts.filename.endsWith(".css") ||
     opts.filename.endsWith(".json")
   ) {
-    return opts.raw
+    const raw = applyPrefix(opts.raw, opts.config.prefix)
+    return opts.filename.endsWith(".scss") && opts.config.style === "css"
+      ? await compileScss(raw, opts.config.resolvedPaths.cwd, opts.targetPath)
+      : raw
   }
 
   const tempFile = await createTempSourceFile(opts.filename)
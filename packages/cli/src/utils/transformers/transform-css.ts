@@ -0,0 +1,82 @@
+import { createRequire } from "module"
+import path from "path"
+import { pathToFileURL } from "url"
+import { Transformer } from "@/src/utils/transformers"
+
+type Sass = typeof import("sass")
+
+let sassPromise: Promise<Sass | null> | null = null
+
+/**
+ * Points side-effect SCSS imports at the compiled CSS files in "css" mode
+ */
+export const transformCss: Transformer = async ({ sourceFile, config }) => {
+  if (config.style !== "css") {
+    return sourceFile
+  }
+
+  for (const importDeclaration of sourceFile.getImportDeclarations()) {
+    const moduleSpecifier = importDeclaration.getModuleSpecifierValue()
+    if (moduleSpecifier.endsWith(".scss")) {
+      importDeclaration.setModuleSpecifier(
+        moduleSpecifier.replace(/\.scss$/, ".css")
+      )
+    }
+  }
+
+  return sourceFile
+}
+
+/**
+ * Compiles a registry SCSS file to CSS. Relative `@use` rules resolve
+ * against where the file is written. sass is an optional peer dependency,
+ * loaded only when a project installs styles as CSS.
+ */
+export async function compileScss(
+  raw: string,
+  cwd: string,
+  targetPath?: string
+) {
+  sassPromise ??= loadSass(cwd)
+  const sass = await sassPromise
+  if (!sass) {
+    throw new Error(
+      'Compiling styles to CSS needs the "sass" package. Install it with `npm install --save-dev sass`, or set "style" to "scss" in components.json.'
+    )
+  }
+
+  try {
+    const { css } = sass.compileString(raw, {
+      url: targetPath ? pathToFileURL(targetPath) : undefined,
+      style: "expanded",
+    })
+    return `${css}\n`
+  } catch (error) {
+    throw new Error(
+      `Failed to compile SCSS to CSS. ${
+        error instanceof sass.Exception ? error.sassMessage : String(error)
+      }`
+    )
+  }
+}
+
+/**
+ * The project's own sass is preferred, since the CLI usually runs through npx
+ * and cannot see it otherwise
+ */
+async function loadSass(cwd: string): Promise<Sass | null> {
+  try {
+    const resolved = createRequire(path.join(cwd, "package.json")).resolve(
+      "sass"
+    )
+    return await import(pathToFileURL(resolved).href)
+  } catch {
+    // Not installed in the project.
+  }
+
+  try {
+    return await import("sass")
+  } catch {
+    return null
+  }
+}
@@ -0,0 +1,37 @@
+import { getMappedIconImport } from "@/src/utils/icon-libraries"
+import { Transformer } from "@/src/utils/transformers"
+
+/**
+ * Imports registry icons from the configured icon library. The local names
+ * are kept, so `import { BoldIcon }` becomes `import { Bold as BoldIcon }`.
+ */
+export const transformIcons: Transformer = async ({ sourceFile, config }) => {
+  for (const importDeclaration of sourceFile.getImportDeclarations()) {
+    const icon = getMappedIconImport(
+      importDeclaration.getModuleSpecifierValue(),
+      config
+    )
+    if (!icon) {
+      continue
+    }
+
+    // Rebuilt rather than renamed, which would also rename the usages.
+    const namedImports = importDeclaration
+      .getNamedImports()
+      .map((namedImport) => {
+        const localName =
+          namedImport.getAliasNode()?.getText() ?? namedImport.getName()
+        return {
+          name: icon.name,
+          alias: localName === icon.name ? undefined : localName,
+          isTypeOnly: namedImport.isTypeOnly(),
+        }
+      })
+
+    importDeclaration.setModuleSpecifier(icon.importPath)
+    importDeclaration.removeNamedImports()
+    importDeclaration.addNamedImports(namedImports)
+  }
+
+  return sourceFile
+}
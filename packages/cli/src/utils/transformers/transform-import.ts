@@ -1,14 +1,22 @@
+import path from "path"
 import { Config } from "@/src/utils/get-config"
 import { Transformer } from "@/src/utils/transformers"
 
-export const transformImport: Transformer = async ({ sourceFile, config }) => {
+export const transformImport: Transformer = async ({
+  sourceFile,
+  config,
+  targetPath,
+  movedModules,
+}) => {
   const importDeclarations = sourceFile.getImportDeclarations()
 
   for (const importDeclaration of importDeclarations) {
-    const moduleSpecifier = updateImportAliases(
-      importDeclaration.getModuleSpecifierValue(),
-      config
-    )
+    const specifier = importDeclaration.getModuleSpecifierValue()
+    const movedModule = movedModules?.get(specifier)
+    const moduleSpecifier =
+      movedModule && targetPath
+        ? getMovedModuleSpecifier(movedModule, targetPath, config)
+        : updateImportAliases(specifier, config)
 
     if (moduleSpecifier) {
       importDeclaration.setModuleSpecifier(moduleSpecifier)
@@ -18,6 +26,39 @@ export const transformImport: Transformer = async ({ sourceFile, config }) => {
   return sourceFile
 }
 
+/**
+ * Imports a relocated module through the project alias when it lives below
+ * the alias root, and relatively otherwise
+ */
+function getMovedModuleSpecifier(
+  modulePath: string,
+  importerPath: string,
+  config: Config
+) {
+  const [alias, ...segments] = config.aliases.components.split("/")
+  const componentsDir = config.resolvedPaths.components
+  if (
+    componentsDir.split(path.sep).slice(-segments.length).join("/") ===
+    segments.join("/")
+  ) {
+    const aliasRoot = path.resolve(componentsDir, ...segments.map(() => ".."))
+    const relativePath = path.relative(aliasRoot, modulePath)
+    if (!relativePath.startsWith("..") && !path.isAbsolute(relativePath)) {
+      return `${alias}/${relativePath.split(path.sep).join("/")}`
+    }
+  }
+
+  const relativePath = path
+    .relative(path.dirname(importerPath), modulePath)
+    .split(path.sep)
+    .join("/")
+  if (!relativePath) {
+    return "."
+  }
+
+  return relativePath.startsWith(".") ? relativePath : `./${relativePath}`
+}
+
 function updateImportAliases(moduleSpecifier: string, config: Config): string {
   // Remove "/registry/" from the module specifier
   if (!moduleSpecifier.startsWith("@/registry/")) {
@@ -0,0 +1,84 @@
+import { Transformer } from "@/src/utils/transformers"
+import { Node, SyntaxKind } from "ts-morph"
+
+// `--tt-*` custom properties and `tiptap-*` class names. Path segments such
+// as "components/tiptap-ui" and packages such as "@tiptap/react" are skipped.
+const PREFIX_REGEX = /(?<![\w@/-])(--tt-|tiptap-)/g
+
+const STRING_KINDS = [
+  SyntaxKind.StringLiteral,
+  SyntaxKind.NoSubstitutionTemplateLiteral,
+  SyntaxKind.TemplateHead,
+  SyntaxKind.TemplateMiddle,
+  SyntaxKind.TemplateTail,
+]
+
+/**
+ * Rewrites the `--tt-` and `tiptap-` prefixes in stylesheets and JSON data
+ */
+export function applyPrefix(content: string, prefix?: string) {
+  if (!prefix) {
+    return content
+  }
+
+  return content.replace(PREFIX_REGEX, (match) =>
+    match === "--tt-" ? `--${prefix}-` : `${prefix}-`
+  )
+}
+
+/**
+ * Rewrites the prefixes in string and template literals, leaving module
+ * specifiers alone
+ */
+export const transformPrefix: Transformer = async ({ sourceFile, config }) => {
+  if (!config.prefix) {
+    return sourceFile
+  }
+
+  const text = sourceFile.getFullText()
+  const edits = sourceFile
+    .getDescendants()
+    .filter(
+      (node) =>
+        STRING_KINDS.includes(node.getKind()) && !isModuleSpecifier(node)
+    )
+    .map((node) => ({
+      start: node.getStart(),
+      end: node.getEnd(),
+      text: applyPrefix(node.getText(), config.prefix),
+    }))
+    .filter((edit) => edit.text !== text.slice(edit.start, edit.end))
+
+  if (!edits.length) {
+    return sourceFile
+  }
+
+  let result = text
+  for (const edit of edits.reverse()) {
+    result = result.slice(0, edit.start) + edit.text + result.slice(edit.end)
+  }
+  sourceFile.replaceWithText(result)
+
+  return sourceFile
+}
+
+function isModuleSpecifier(node: Node) {
+  const parent = node.getParent()
+  if (!parent) {
+    return false
+  }
+
+  if (
+    Node.isImportDeclaration(parent) ||
+    Node.isExportDeclaration(parent) ||
+    Node.isExternalModuleReference(parent)
+  ) {
+    return true
+  }
+
+  // require("...") and import("...")
+  return (
+    Node.isCallExpression(parent) &&
+    ["require", "import"].includes(parent.getExpression().getText())
+  )
+}
@@ -0,0 +1,40 @@
+import { Config } from "@/src/utils/get-config"
+import { getPackageManager } from "@/src/utils/get-package-manager"
+import { spinner } from "@/src/utils/spinner"
+import { execa } from "execa"
+import { colors } from "@/src/utils/colors"
+
+export async function removeDependencies(
+  dependencies: string[],
+  config: Config,
+  options: {
+    silent?: boolean
+  }
+) {
+  dependencies = Array.from(new Set(dependencies))
+  if (!dependencies.length) {
+    return
+  }
+
+  options = {
+    silent: false,
+    ...options,
+  }
+
+  const dependenciesSpinner = spinner(`Uninstalling dependencies.`, {
+    silent: options.silent,
+  }).start()
+  const packageManager = await getPackageManager(config.resolvedPaths.cwd)
+
+  await execa(
+    packageManager,
+    [packageManager === "npm" ? "uninstall" : "remove", ...dependencies],
+    {
+      cwd: config.resolvedPaths.cwd,
+    }
+  )
+
+  dependenciesSpinner.stopAndPersist({
+    symbol: colors.cyan("✔"),
+  })
+}
@@ -19,7 +19,10 @@ export async function updateDevDependencies(
     silent?: boolean
   }
 ) {
-  devDependencies = Array.from(new Set(devDependencies))
+  devDependencies = filterStyleDevDependencies(
+    Array.from(new Set(devDependencies)),
+    config
+  )
   if (!devDependencies?.length) {
     return
   }
@@ -54,3 +57,19 @@ export async function updateDevDependencies(
     symbol: colors.cyan("✔"),
   })
 }
+
+/**
+ * Drops the Sass compiler in "css" style mode, where styles ship compiled
+ */
+export function filterStyleDevDependencies(
+  devDependencies: string[],
+  config: Config
+) {
+  if (config.style !== "css") {
+    return devDependencies
+  }
+
+  return devDependencies.filter(
+    (dependency) => !/^sass(-embedded)?(@|$)/.test(dependency)
+  )
+}
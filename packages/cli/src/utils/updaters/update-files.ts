@@ -8,13 +8,23 @@ import {
   registryItemFileSchema,
 } from "@/src/utils/registry/schema"
 import { spinner } from "@/src/utils/spinner"
-import { transform } from "@/src/utils/transformers"
+import { transform, type TransformOpts } from "@/src/utils/transformers"
+import { transformCss } from "@/src/utils/transformers/transform-css"
+import { transformIcons } from "@/src/utils/transformers/transform-icons"
 import { transformImport } from "@/src/utils/transformers/transform-import"
+import { transformPrefix } from "@/src/utils/transformers/transform-prefix"
 import { transformRsc } from "@/src/utils/transformers/transform-rsc"
 import { z } from "zod"
 import { confirm } from "@inquirer/prompts"
 import chalk from "chalk"
 import { colors } from "@/src/utils/colors"
+import { hashContent, type ResolvedFile } from "@/src/utils/lockfile"
+import { isMappedIconFile } from "@/src/utils/icon-libraries"
+import {
+  mergeFileContent,
+  readPristineFile,
+  writePristineFile,
+} from "@/src/utils/pristine"
 
 export async function updateFiles(
   files: RegistryItem["files"],
@@ -23,13 +33,18 @@ export async function updateFiles(
     overwrite?: boolean
     force?: boolean
     silent?: boolean
+    merge?: boolean
     rootSpinner?: ReturnType<typeof spinner>
+    targetDirs?: Map<string, string>
+    movedModules?: Map<string, string>
   }
 ) {
   const result = {
     filesCreated: [] as string[],
     filesUpdated: [] as string[],
     filesSkipped: [] as string[],
+    filesConflicted: [] as string[],
+    resolvedFiles: [] as ResolvedFile[],
     errors: [] as { file: string; error: string }[],
   }
 
@@ -41,6 +56,7 @@ export async function updateFiles(
     overwrite: false,
     force: false,
     silent: false,
+    merge: false,
     ...options,
   }
 
@@ -61,14 +77,13 @@ export async function updateFiles(
 
         let filePath: string | undefined
         try {
-          filePath = resolveFilePath(file, config, {
-            isSrcDir: projectInfo?.isSrcDir,
-            framework: projectInfo?.framework.name,
-            commonRoot: findCommonRoot(
-              files.map((f) => f.path),
-              file.path
-            ),
-          })
+          filePath = resolveTargetFilePath(
+            file,
+            files,
+            config,
+            projectInfo,
+            options.targetDirs?.get(file.path)
+          )
         } catch (error) {
           result.errors.push({
             file: file.path,
@@ -84,12 +99,6 @@ export async function updateFiles(
         const fileName = basename(file.path)
         const targetDir = path.dirname(filePath)
 
-        if (!config.tsx) {
-          filePath = filePath.replace(/\.tsx?$/, (match) =>
-            match === ".tsx" ? ".jsx" : ".js"
-          )
-        }
-
         let existingFile = false
         try {
           existingFile = existsSync(filePath)
@@ -103,15 +112,10 @@ export async function updateFiles(
 
         let content: string
         try {
-          content = await transform(
-            {
-              filename: file.path,
-              raw: file.content,
-              config,
-              transformJsx: !config.tsx,
-            },
-            [transformImport, transformRsc]
-          )
+          content = await transformFileContent(file, config, {
+            targetPath: filePath,
+            movedModules: options.movedModules,
+          })
         } catch (error) {
           result.errors.push({
             file: filePath,
@@ -120,6 +124,14 @@ export async function updateFiles(
           continue
         }
 
+        // The untouched registry version, kept as the base for future merges.
+        const pristineContent = content
+        const resolvedFile = {
+          path: file.path,
+          target: filePath,
+          hash: hashContent(pristineContent),
+        }
+
         if (existingFile) {
           try {
             const existingFileContent = await fs.readFile(filePath, "utf-8")
@@ -128,6 +140,9 @@ export async function updateFiles(
               getNormalizedFileContent(content),
             ])
             if (normalizedExisting === normalizedNew) {
+              // Already installed as is, so still recorded in the lockfile.
+              await writePristineFile(config, filePath, pristineContent)
+              result.resolvedFiles.push(resolvedFile)
               result.filesSkipped.push(
                 path.relative(config.resolvedPaths.cwd, filePath)
               )
@@ -142,7 +157,60 @@ export async function updateFiles(
           }
         }
 
-        if (existingFile && !options.overwrite) {
+        // Without a base we cannot tell local edits from upstream changes,
+        // e.g. for files installed before pristine copies were kept. Those
+        // fall back to the overwrite prompt.
+        let base: string | null = null
+        if (existingFile && options.merge) {
+          try {
+            base = await readPristineFile(config, filePath)
+          } catch (error) {
+            result.errors.push({
+              file: filePath,
+              error: `Failed to read pristine file: ${error instanceof Error ? error.message : String(error)}`,
+            })
+            continue
+          }
+        }
+
+        if (base !== null) {
+          try {
+            const local = await fs.readFile(filePath, "utf-8")
+            const merged = mergeFileContent({
+              local,
+              base,
+              incoming: content,
+            })
+
+            // Nothing upstream to apply, leave the local copy untouched.
+            if (
+              !merged.conflict &&
+              merged.content === local.replace(/\r\n/g, "\n")
+            ) {
+              await writePristineFile(config, filePath, pristineContent)
+              result.resolvedFiles.push(resolvedFile)
+              result.filesSkipped.push(
+                path.relative(config.resolvedPaths.cwd, filePath)
+              )
+              continue
+            }
+
+            content = merged.content
+            if (merged.conflict) {
+              result.filesConflicted.push(
+                path.relative(config.resolvedPaths.cwd, filePath)
+              )
+            }
+          } catch (error) {
+            result.errors.push({
+              file: filePath,
+              error: `Failed to merge file: ${error instanceof Error ? error.message : String(error)}`,
+            })
+            continue
+          }
+        }
+
+        if (existingFile && !options.overwrite && base === null) {
           filesCreatedSpinner?.stop()
           if (options.rootSpinner) {
             options.rootSpinner?.stop()
@@ -151,9 +219,13 @@ export async function updateFiles(
           try {
             const overwrite = await confirm({
               message: chalk.white(
-                `The file ${colors.blue(
-                  fileName
-                )} already exists. Would you like to overwrite?`
+                options.merge
+                  ? `The file ${colors.blue(
+                      fileName
+                    )} has no pristine copy to merge your changes with. Would you like to overwrite it?`
+                  : `The file ${colors.blue(
+                      fileName
+                    )} already exists. Would you like to overwrite?`
               ),
               theme: {
                 prefix: chalk.hex("#46caff")("?"),
@@ -192,6 +264,8 @@ export async function updateFiles(
           }
 
           await fs.writeFile(filePath, content, "utf-8")
+          await writePristineFile(config, filePath, pristineContent)
+          result.resolvedFiles.push(resolvedFile)
 
           existingFile
             ? result.filesUpdated.push(
@@ -274,6 +348,22 @@ export async function updateFiles(
       }
     }
 
+    if (result.filesConflicted.length) {
+      spinner(
+        `Merged ${result.filesConflicted.length} ${
+          result.filesConflicted.length === 1 ? "file" : "files"
+        } with conflicts: (resolve the conflict markers manually)`,
+        {
+          silent: options.silent,
+        }
+      )?.warn()
+      if (!options.silent) {
+        for (const file of result.filesConflicted) {
+          logger.log(`  - ${file}`)
+        }
+      }
+    }
+
     if (result.errors.length) {
       spinner(
         `Failed to process ${result.errors.length} ${
@@ -298,6 +388,139 @@ export async function updateFiles(
   return result
 }
 
+/**
+ * Resolves the path a registry file is written to, including the
+ * .tsx/.ts to .jsx/.js rename for JavaScript projects and the .scss to .css
+ * rename in "css" style mode. Icons replaced by the icon library resolve to
+ * an empty path, so they are skipped.
+ */
+export function resolveTargetFilePath(
+  file: z.infer<typeof registryItemFileSchema>,
+  files: z.infer<typeof registryItemFileSchema>[],
+  config: Config,
+  projectInfo: ProjectInfo | null,
+  targetDir?: string
+) {
+  if (isMappedIconFile(file, config)) {
+    return ""
+  }
+
+  let filePath = resolveFilePath(file, config, {
+    targetDir,
+    isSrcDir: projectInfo?.isSrcDir,
+    framework: projectInfo?.framework.name,
+    commonRoot: findCommonRoot(
+      files.map((f) => f.path),
+      file.path
+    ),
+  })
+
+  if (!filePath) {
+    return filePath
+  }
+
+  if (config.style === "css") {
+    filePath = filePath.replace(/\.scss$/, ".css")
+  }
+
+  if (config.tsx) {
+    return filePath
+  }
+
+  return filePath.replace(/\.tsx?$/, (match) =>
+    match === ".tsx" ? ".jsx" : ".js"
+  )
+}
+
+/**
+ * Maps the registry import specifiers of files installed into a custom
+ * directory to their target paths.
+ */
+export function resolveMovedModules(
+  files: z.infer<typeof registryItemFileSchema>[],
+  config: Config,
+  projectInfo: ProjectInfo | null,
+  targetDirs: Map<string, string>
+) {
+  const targets = new Map<string, string>()
+
+  for (const file of files) {
+    const targetDir = targetDirs.get(file.path)
+    if (!targetDir) {
+      continue
+    }
+
+    const filePath = resolveTargetFilePath(
+      file,
+      files,
+      config,
+      projectInfo,
+      targetDir
+    )
+    if (filePath) {
+      targets.set(file.path, filePath)
+    }
+  }
+
+  return getMovedModules(targets)
+}
+
+/**
+ * Maps the import specifiers of registry files to the paths they were
+ * written to, keyed by registry file path.
+ */
+export function getMovedModules(targets: Map<string, string>) {
+  const movedModules = new Map<string, string>()
+
+  for (const [registryPath, filePath] of targets) {
+    const specifier = `@/${registryPath.replace(/^\//, "")}`
+    movedModules.set(specifier, filePath)
+
+    if (!/\.[jt]sx?$/.test(specifier)) {
+      continue
+    }
+
+    // Scripts are imported without extension, index files by directory.
+    const moduleSpecifier = specifier.replace(/\.[jt]sx?$/, "")
+    const modulePath = filePath.replace(/\.[jt]sx?$/, "")
+    movedModules.set(moduleSpecifier, modulePath)
+    if (path.basename(modulePath) === "index") {
+      movedModules.set(
+        path.posix.dirname(moduleSpecifier),
+        path.dirname(modulePath)
+      )
+    }
+  }
+
+  return movedModules
+}
+
+/**
+ * Runs a registry file through the same transformers used when installing it.
+ */
+export async function transformFileContent(
+  file: z.infer<typeof registryItemFileSchema>,
+  config: Config,
+  options: Pick<TransformOpts, "targetPath" | "movedModules"> = {}
+) {
+  return await transform(
+    {
+      filename: file.path,
+      raw: file.content ?? "",
+      config,
+      transformJsx: !config.tsx,
+      ...options,
+    },
+    [
+      transformIcons,
+      transformImport,
+      transformCss,
+      transformPrefix,
+      transformRsc,
+    ]
+  )
+}
+
 export function resolveFileTargetDirectory(
   file: z.infer<typeof registryItemFileSchema>,
   config: Config,
@@ -457,6 +680,7 @@ export function resolveFilePath(
   file: z.infer<typeof registryItemFileSchema>,
   config: Config,
   options: {
+    targetDir?: string
     isSrcDir?: boolean
     commonRoot?: string
     framework?: ProjectInfo["framework"]["name"]
@@ -487,24 +711,18 @@ export function resolveFilePath(
     if (match) {
       const [, templateName, relativePath] = match
 
+      const templatesDir =
+        options.targetDir ??
+        path.join(config.resolvedPaths.components, "tiptap-templates")
+
       // If it's a component file in the components directory, adjust the path
       if (relativePath.startsWith("components/")) {
         const finalPath = relativePath.replace("components/", "")
-        return path.join(
-          config.resolvedPaths.components,
-          "tiptap-templates",
-          templateName,
-          finalPath
-        )
+        return path.join(templatesDir, templateName, finalPath)
       }
 
       // For data and other files
-      return path.join(
-        config.resolvedPaths.components,
-        "tiptap-templates",
-        templateName,
-        relativePath
-      )
+      return path.join(templatesDir, templateName, relativePath)
     }
   }
 
@@ -519,8 +737,8 @@ export function resolveFilePath(
       const templateName = templateMatch[1]
       const dataPath = file.target.split("/data/")[1]
       return path.join(
-        config.resolvedPaths.components,
-        "tiptap-templates",
+        options.targetDir ??
+          path.join(config.resolvedPaths.components, "tiptap-templates"),
         templateName,
         "data",
         dataPath
@@ -548,8 +766,14 @@ export function resolveFilePath(
       : path.join(config.resolvedPaths.cwd, target.replace("src/", ""))
   }
 
-  // Original logic for non-template files
-  const targetDir = resolveFileTargetDirectory(file, config)
-  const relativePath = resolveNestedFilePath(file.path, targetDir)
-  return path.join(targetDir, relativePath)
+  // Original logic for non-template files. A custom directory keeps the
+  // layout the file would have in its alias directory.
+  const relativePath = resolveNestedFilePath(
+    file.path,
+    resolveFileTargetDirectory(file, config)
+  )
+  return path.join(
+    resolveFileTargetDirectory(file, config, options.targetDir),
+    relativePath
+  )
 }
@@ -0,0 +1,74 @@
+import { execa } from "execa"
+import { Config } from "@/src/utils/get-config"
+import { getPackageInfo } from "@/src/utils/get-package-info"
+import { getPackageManager } from "@/src/utils/get-package-manager"
+import { spinner } from "@/src/utils/spinner"
+import { colors } from "@/src/utils/colors"
+
+/**
+ * Adds the workspace packages at `packageDirs` to the dependencies of the
+ * package in `config`
+ */
+export async function updateWorkspaceDependencies(
+  packageDirs: string[],
+  config: Config,
+  options: {
+    silent?: boolean
+  }
+) {
+  packageDirs = Array.from(new Set(packageDirs))
+  if (!packageDirs.length) {
+    return
+  }
+
+  const packageJson = getPackageInfo(config.resolvedPaths.cwd, false)
+  if (!packageJson) {
+    return
+  }
+
+  const packageManager = await getPackageManager(config.resolvedPaths.cwd)
+  // npm links workspace packages by name and does not know the protocol.
+  const version = packageManager === "npm" ? "*" : "workspace:*"
+
+  const names: string[] = []
+  for (const packageDir of packageDirs) {
+    const name = getPackageInfo(packageDir, false)?.name
+    if (
+      !name ||
+      packageJson.dependencies?.[name] ||
+      packageJson.devDependencies?.[name] ||
+      packageJson.peerDependencies?.[name]
+    ) {
+      continue
+    }
+
+    names.push(name)
+  }
+
+  if (!names.length) {
+    return
+  }
+
+  const workspaceSpinner = spinner(
+    `Adding workspace dependencies: ${names.join(", ")}.`,
+    {
+      silent: options.silent,
+    }
+  )?.start()
+
+  await execa(
+    packageManager,
+    [
+      packageManager === "npm" ? "install" : "add",
+      ...(packageManager === "npm" ? ["--save"] : []),
+      ...names.map((name) => `${name}@${version}`),
+    ],
+    {
+      cwd: config.resolvedPaths.cwd,
+    }
+  )
+
+  workspaceSpinner?.stopAndPersist({
+    symbol: colors.cyan("✔"),
+  })
+}
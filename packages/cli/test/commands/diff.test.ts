@@ -0,0 +1,114 @@
+import { promises as fs } from "fs"
+import { tmpdir } from "os"
+import path from "path"
+import { diff } from "@/src/commands/diff"
+import { type Lockfile, writeLockfile } from "@/src/utils/lockfile"
+import { logger } from "@/src/utils/logger"
+import { fetchRegistry } from "@/src/utils/registry"
+import { type RegistryItem } from "@/src/utils/registry/schema"
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest"
+
+vi.mock("@/src/utils/registry", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/src/utils/registry")>()),
+  fetchRegistry: vi.fn(),
+}))
+
+const BADGE_PATH = "registry/tiptap-ui-primitive/badge/badge.tsx"
+const BADGE_TARGET = "src/components/tiptap-ui-primitive/badge/badge.tsx"
+
+function badge(content: string): RegistryItem {
+  return {
+    name: "badge",
+    type: "registry:ui-primitive",
+    files: [{ path: BADGE_PATH, type: "registry:ui-primitive", content }],
+  } as RegistryItem
+}
+
+describe("diff", () => {
+  let cwd: string
+  let output: string[]
+
+  beforeEach(async () => {
+    cwd = await fs.mkdtemp(path.join(tmpdir(), "tiptap-diff-"))
+    await fs.writeFile(path.join(cwd, "package.json"), `{"name":"app"}`)
+    await fs.writeFile(
+      path.join(cwd, "tsconfig.json"),
+      JSON.stringify({
+        compilerOptions: { baseUrl: ".", paths: { "@/*": ["./src/*"] } },
+      })
+    )
+    await fs.writeFile(
+      path.join(cwd, "components.json"),
+      JSON.stringify({
+        rsc: false,
+        tsx: true,
+        aliases: { components: "@/components" },
+      })
+    )
+    await fs.writeFile(path.join(cwd, "vite.config.ts"), "")
+
+    const lockfile: Lockfile = {
+      lockfileVersion: 1,
+      requested: ["badge"],
+      items: {
+        badge: {
+          type: "registry:ui-primitive",
+          source: "https://template.tiptap.dev/r/badge.json",
+          registryDependencies: [],
+          dependencies: [],
+          devDependencies: [],
+          files: [{ path: BADGE_PATH, target: BADGE_TARGET, hash: "" }],
+        },
+      },
+    }
+    await writeLockfile(cwd, lockfile)
+
+    await fs.mkdir(path.dirname(path.join(cwd, BADGE_TARGET)), {
+      recursive: true,
+    })
+    await fs.writeFile(path.join(cwd, BADGE_TARGET), "export const size = 1\n")
+
+    output = []
+    vi.spyOn(logger, "log").mockImplementation((...args) => {
+      output.push(args.join(" "))
+    })
+    vi.spyOn(logger, "info").mockImplementation((...args) => {
+      output.push(args.join(" "))
+    })
+    vi.spyOn(logger, "success").mockImplementation((...args) => {
+      output.push(args.join(" "))
+    })
+    vi.spyOn(logger, "break").mockImplementation(() => {})
+  })
+
+  afterEach(async () => {
+    vi.restoreAllMocks()
+    await fs.rm(cwd, { recursive: true, force: true })
+  })
+
+  test("prints local lines as removed and registry lines as added", async () => {
+    vi.mocked(fetchRegistry).mockResolvedValue([
+      badge("export const size = 2\n"),
+    ])
+
+    await diff.parseAsync(["-c", cwd], { from: "user" })
+
+    expect(output).toContain("badge (1 file changed)")
+    expect(output).toContain(`--- a/${BADGE_TARGET}`)
+    expect(output).toContain(`+++ b/${BADGE_TARGET}`)
+    expect(output).toContain("-export const size = 1")
+    expect(output).toContain("+export const size = 2")
+  })
+
+  test("reports no changes when the installed copy matches", async () => {
+    vi.mocked(fetchRegistry).mockResolvedValue([
+      badge("export const size = 1\r\n"),
+    ])
+
+    await diff.parseAsync(["-c", cwd], { from: "user" })
+
+    expect(output).toEqual([
+      "No changes found. Installed components match the registry.",
+    ])
+  })
+})
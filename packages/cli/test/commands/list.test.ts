@@ -0,0 +1,73 @@
+import { listRegistryItems } from "@/src/commands/list"
+import { logger } from "@/src/utils/logger"
+import { getRegistryIndex } from "@/src/utils/registry"
+import { type RegistryItemIndexSchema } from "@/src/utils/registry/schema"
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest"
+
+vi.mock("@/src/utils/registry", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/src/utils/registry")>()),
+  getRegistryIndex: vi.fn(),
+}))
+
+const INDEX: RegistryItemIndexSchema = [
+  { name: "button", type: "registry:ui-primitive", hidden: false },
+  {
+    name: "use-tiptap-editor",
+    type: "registry:hook",
+    hidden: false,
+    description: "Access the editor instance",
+  },
+  { name: "tiptap-utils", type: "registry:lib", hidden: false },
+]
+
+describe("listRegistryItems", () => {
+  let output: string[]
+
+  beforeEach(() => {
+    vi.mocked(getRegistryIndex).mockResolvedValue(INDEX)
+    output = []
+    vi.spyOn(logger, "log").mockImplementation((...args) => {
+      output.push(args.join(" "))
+    })
+    vi.spyOn(logger, "info").mockImplementation((...args) => {
+      output.push(args.join(" "))
+    })
+    vi.spyOn(logger, "break").mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  test("lists hooks under the other section", async () => {
+    await listRegistryItems({ type: "registry:hook", json: false })
+
+    expect(output).toContain("OTHER")
+    expect(output).toContain("  use-tiptap-editor (Free)")
+    expect(output).toContain("    Access the editor instance")
+    expect(output).not.toContain("No registry items found.")
+  })
+
+  test("keeps search matches of types the add prompt does not offer", async () => {
+    await listRegistryItems({ query: "utils", json: false })
+
+    expect(output).toContain("  tiptap-utils (Free)")
+  })
+
+  test("includes other items in the JSON output", async () => {
+    const write = vi
+      .spyOn(process.stdout, "write")
+      .mockImplementation(() => true)
+
+    await listRegistryItems({ json: true })
+
+    const json = JSON.parse(String(write.mock.calls[0][0]))
+    expect(json.primitives.map(({ name }: { name: string }) => name)).toEqual([
+      "button",
+    ])
+    expect(json.other.map(({ name }: { name: string }) => name)).toEqual([
+      "use-tiptap-editor",
+      "tiptap-utils",
+    ])
+  })
+})
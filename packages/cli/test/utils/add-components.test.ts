@@ -0,0 +1,100 @@
+import { promises as fs } from "fs"
+import { tmpdir } from "os"
+import path from "path"
+import {
+  getWorkspaceTargetConfig,
+  isWorkspaceInstall,
+} from "@/src/utils/add-components"
+import { getConfig, getWorkspaceConfig } from "@/src/utils/get-config"
+import { afterEach, beforeEach, describe, expect, test } from "vitest"
+
+// apps/web installs ui items into packages/ui and everything else locally.
+const MONOREPO: Record<string, unknown> = {
+  "apps/web/package.json": { name: "web" },
+  "apps/web/tsconfig.json": {
+    compilerOptions: {
+      baseUrl: ".",
+      paths: {
+        "@/*": ["./src/*"],
+        "@workspace/ui/*": ["../../packages/ui/src/*"],
+      },
+    },
+  },
+  "apps/web/components.json": {
+    rsc: false,
+    tsx: true,
+    aliases: {
+      components: "@/components",
+      hooks: "@/hooks",
+      tiptapUi: "@workspace/ui/components/tiptap-ui",
+      tiptapUiPrimitives: "@workspace/ui/components/tiptap-ui-primitive",
+    },
+  },
+  "packages/ui/package.json": { name: "@workspace/ui" },
+  "packages/ui/tsconfig.json": {
+    compilerOptions: {
+      baseUrl: ".",
+      paths: { "@workspace/ui/*": ["./src/*"] },
+    },
+  },
+  "packages/ui/components.json": {
+    rsc: false,
+    tsx: true,
+    aliases: {
+      components: "@workspace/ui/components",
+      tiptapUi: "@workspace/ui/components/tiptap-ui",
+      tiptapUiPrimitives: "@workspace/ui/components/tiptap-ui-primitive",
+    },
+  },
+}
+
+describe("workspace installs", () => {
+  let root: string
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(tmpdir(), "tiptap-workspace-"))
+    for (const [file, content] of Object.entries(MONOREPO)) {
+      await fs.mkdir(path.dirname(path.join(root, file)), { recursive: true })
+      await fs.writeFile(path.join(root, file), JSON.stringify(content))
+    }
+    await fs.writeFile(path.join(root, "apps/web/vite.config.ts"), "")
+  })
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true })
+  })
+
+  test("routes each registry type to the package its alias points to", async () => {
+    const config = (await getConfig(path.join(root, "apps/web")))!
+    const workspaceConfig = await getWorkspaceConfig(config)
+
+    expect(isWorkspaceInstall(config, workspaceConfig)).toBe(true)
+
+    const getTargetCwd = (type: "registry:ui" | "registry:hook") =>
+      path.relative(
+        root,
+        getWorkspaceTargetConfig({ type }, config, workspaceConfig!)
+          .resolvedPaths.cwd
+      )
+
+    expect(getTargetCwd("registry:ui")).toBe("packages/ui")
+    expect(getTargetCwd("registry:hook")).toBe("apps/web")
+  })
+
+  test("installs into the project itself without workspace aliases", async () => {
+    const configPath = path.join(root, "apps/web/components.json")
+    await fs.writeFile(
+      configPath,
+      JSON.stringify({
+        ...(MONOREPO["apps/web/components.json"] as object),
+        aliases: { components: "@/components" },
+      })
+    )
+
+    const config = (await getConfig(path.join(root, "apps/web")))!
+
+    expect(isWorkspaceInstall(config, await getWorkspaceConfig(config))).toBe(
+      false
+    )
+  })
+})
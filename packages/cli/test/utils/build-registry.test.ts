@@ -0,0 +1,200 @@
+import { promises as fs } from "fs"
+import { generateKeyPairSync, verify } from "crypto"
+import { tmpdir } from "os"
+import path from "path"
+import { buildRegistry, writeRegistry } from "@/src/utils/build-registry"
+import { getIndexSigningPayload } from "@/src/utils/registry/integrity"
+import { afterEach, beforeEach, describe, expect, test } from "vitest"
+
+const SOURCES: Record<string, string> = {
+  "components/tiptap-ui/mark-button/mark-button.tsx": [
+    'import { useState } from "react"',
+    'import { offset } from "@floating-ui/react"',
+    'import { Button } from "@/components/tiptap-ui-primitive/button"',
+    'import { cn } from "@/lib/tiptap-utils"',
+    'import "./mark-button.scss"',
+    "",
+  ].join("\n"),
+  "components/tiptap-ui/mark-button/mark-button.scss": [
+    '@use "sass:math";',
+    '@use "../../../styles/variables" as *;',
+    '@import "https://fonts.example/inter.css";',
+    ".tiptap-mark-button { color: $accent; }",
+    "",
+  ].join("\n"),
+  "components/tiptap-ui-primitive/button/index.tsx":
+    'export * from "./button"\n',
+  "components/tiptap-ui-primitive/button/button.tsx":
+    "export const Button = () => null\n",
+  "components/tiptap-ui-primitive/button/button.scss":
+    '@forward "../../../styles/keyframe-animations";\n',
+  "lib/tiptap-utils.ts": "export const cn = () => ''\n",
+  "styles/_variables.scss": "$accent: blue;\n",
+  "styles/_keyframe-animations.scss": "@keyframes fade {}\n",
+}
+
+describe("buildRegistry", () => {
+  let sourceDir: string
+
+  beforeEach(async () => {
+    sourceDir = await fs.mkdtemp(path.join(tmpdir(), "tiptap-build-"))
+    for (const [file, content] of Object.entries(SOURCES)) {
+      await fs.mkdir(path.dirname(path.join(sourceDir, file)), {
+        recursive: true,
+      })
+      await fs.writeFile(path.join(sourceDir, file), content, "utf-8")
+    }
+  })
+
+  afterEach(async () => {
+    await fs.rm(sourceDir, { recursive: true, force: true })
+  })
+
+  test("collects dependencies from source imports", async () => {
+    const { items, warnings } = await buildRegistry(sourceDir, {
+      version: "1.2.0",
+    })
+    const markButton = items.find((item) => item.name === "mark-button")!
+
+    expect(warnings).toEqual([])
+    expect(items.map((item) => item.name)).toEqual([
+      "button",
+      "keyframe-animations",
+      "mark-button",
+      "tiptap-utils",
+      "variables",
+    ])
+    expect(markButton).toMatchObject({
+      type: "registry:ui",
+      version: "1.2.0",
+      dependencies: ["@floating-ui/react"],
+      devDependencies: ["sass", "sass-embedded"],
+      registryDependencies: ["button", "tiptap-utils", "variables"],
+    })
+  })
+
+  test("rewrites local imports to registry paths", async () => {
+    const { items } = await buildRegistry(sourceDir)
+    const file = items
+      .find((item) => item.name === "mark-button")!
+      .files!.find((file) => file.path.endsWith(".tsx"))!
+
+    expect(file.path).toBe("registry/tiptap-ui/mark-button/mark-button.tsx")
+    expect(file.content).toContain(
+      'from "@/registry/tiptap-ui-primitive/button"'
+    )
+    expect(file.content).toContain('from "@/registry/lib/tiptap-utils"')
+    expect(file.content).toContain('import "./mark-button.scss"')
+  })
+
+  test("resolves @forward of style partials", async () => {
+    const { items } = await buildRegistry(sourceDir)
+
+    expect(
+      items.find((item) => item.name === "button")!.registryDependencies
+    ).toEqual(["keyframe-animations"])
+  })
+
+  test("namespaces registry dependencies", async () => {
+    const { items } = await buildRegistry(sourceDir, { namespace: "@acme" })
+
+    expect(
+      items.find((item) => item.name === "mark-button")!.registryDependencies
+    ).toEqual(["@acme/button", "@acme/tiptap-utils", "@acme/variables"])
+  })
+
+  test("warns about local imports outside any item", async () => {
+    await fs.writeFile(
+      path.join(sourceDir, "styles/_variables.scss"),
+      '@use "../theme/colors";\n',
+      "utf-8"
+    )
+
+    const { warnings } = await buildRegistry(sourceDir)
+
+    expect(warnings).toEqual([
+      "styles/_variables.scss imports ../theme/colors, which is not part of any registry item.",
+    ])
+  })
+})
+
+describe("writeRegistry", () => {
+  let sourceDir: string
+  let outputDir: string
+
+  beforeEach(async () => {
+    sourceDir = await fs.mkdtemp(path.join(tmpdir(), "tiptap-build-"))
+    outputDir = path.join(sourceDir, "out")
+    for (const [file, content] of Object.entries(SOURCES)) {
+      await fs.mkdir(path.dirname(path.join(sourceDir, file)), {
+        recursive: true,
+      })
+      await fs.writeFile(path.join(sourceDir, file), content, "utf-8")
+    }
+  })
+
+  afterEach(async () => {
+    await fs.rm(sourceDir, { recursive: true, force: true })
+  })
+
+  const readJson = async (file: string) =>
+    JSON.parse(await fs.readFile(path.join(outputDir, file), "utf-8"))
+
+  test("keeps versions and their integrity across builds", async () => {
+    await writeRegistry(
+      (await buildRegistry(sourceDir, { version: "1.0.0" })).items,
+      outputDir
+    )
+    await fs.writeFile(
+      path.join(sourceDir, "lib/tiptap-utils.ts"),
+      "export const cn = (...names: string[]) => names.join(' ')\n",
+      "utf-8"
+    )
+    await writeRegistry(
+      (await buildRegistry(sourceDir, { version: "1.1.0" })).items,
+      outputDir
+    )
+
+    const utils = (await readJson("index.json")).find(
+      (entry: { name: string }) => entry.name === "tiptap-utils"
+    )
+    const filePath = "registry/lib/tiptap-utils.ts"
+
+    expect(utils.version).toBe("1.1.0")
+    expect(utils.versions).toEqual(["1.1.0", "1.0.0"])
+    // The index lists files without their content.
+    expect(utils.files).toEqual([
+      {
+        path: filePath,
+        type: "registry:lib",
+        integrity: utils.integrity["1.1.0"][filePath],
+      },
+    ])
+    expect(utils.integrity["1.0.0"][filePath]).toMatch(/^sha256-/)
+    expect(utils.integrity["1.1.0"][filePath]).not.toBe(
+      utils.integrity["1.0.0"][filePath]
+    )
+
+    const item = await readJson("tiptap-utils.json")
+    expect(item.files[0].content).toContain("names.join")
+    expect(item.files[0].integrity).toBe(utils.integrity["1.1.0"][filePath])
+  })
+
+  test("signs the index with the private key", async () => {
+    const { privateKey, publicKey } = generateKeyPairSync("ed25519")
+
+    await writeRegistry((await buildRegistry(sourceDir)).items, outputDir, {
+      privateKey: privateKey.export({ type: "pkcs8", format: "pem" }) as string,
+    })
+
+    const { signature } = await readJson("index.json.sig")
+    expect(
+      verify(
+        null,
+        getIndexSigningPayload(await readJson("index.json")),
+        publicKey,
+        Buffer.from(signature, "base64")
+      )
+    ).toBe(true)
+  })
+})
@@ -0,0 +1,283 @@
+import { promises as fs } from "fs"
+import http from "http"
+import { type AddressInfo } from "net"
+import { tmpdir } from "os"
+import path from "path"
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  test,
+  vi,
+} from "vitest"
+
+let client: typeof import("@/src/utils/http")
+
+beforeAll(async () => {
+  // Read when the module loads. One retry keeps timeouts short.
+  vi.stubEnv("TIPTAP_HTTP_RETRIES", "1")
+  client = await import("@/src/utils/http")
+  vi.unstubAllEnvs()
+})
+
+function listen(handler: http.RequestListener) {
+  const server = http.createServer(handler)
+  return new Promise<{ server: http.Server; origin: string }>((resolve) =>
+    server.listen(0, "127.0.0.1", () =>
+      resolve({
+        server,
+        origin: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+      })
+    )
+  )
+}
+
+describe("shouldBypassProxy", () => {
+  test.each([
+    ["https://registry.tiptap.dev/r", ["*"], true],
+    ["https://registry.tiptap.dev/r", ["registry.tiptap.dev"], true],
+    ["https://registry.tiptap.dev/r", ["tiptap.dev"], true],
+    ["https://registry.tiptap.dev/r", [".tiptap.dev"], true],
+    ["https://registry.tiptap.dev/r", ["*.tiptap.dev"], true],
+    ["https://registry.tiptap.dev/r", ["TIPTAP.dev"], true],
+    ["https://registry.tiptap.dev/r", ["tiptap.dev:443"], true],
+    ["https://registry.tiptap.dev/r", ["tiptap.dev:8443"], false],
+    ["http://registry.tiptap.dev/r", ["tiptap.dev:80"], true],
+    ["http://localhost:4000/r", ["localhost:4000"], true],
+    ["https://registry.tiptap.dev/r", ["p.tiptap.dev"], false],
+    ["https://nottiptap.dev/r", ["tiptap.dev"], false],
+    ["https://registry.tiptap.dev/r", [], false],
+  ])("%s with %j is %s", (url, noProxy, expected) => {
+    expect(client.shouldBypassProxy(new URL(url), noProxy)).toBe(expected)
+  })
+})
+
+describe("parseRetryAfter", () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  test("reads delays in seconds", () => {
+    expect(client.parseRetryAfter("2")).toBe(2000)
+    expect(client.parseRetryAfter("0")).toBe(0)
+    expect(client.parseRetryAfter("-5")).toBe(0)
+  })
+
+  test("reads HTTP dates", () => {
+    vi.useFakeTimers({ now: new Date("2025-01-01T00:00:00Z") })
+
+    expect(client.parseRetryAfter("Wed, 01 Jan 2025 00:00:30 GMT")).toBe(30000)
+    expect(client.parseRetryAfter("Tue, 31 Dec 2024 23:59:00 GMT")).toBe(0)
+  })
+
+  test("ignores missing and invalid values", () => {
+    expect(client.parseRetryAfter(null)).toBeNull()
+    expect(client.parseRetryAfter("")).toBeNull()
+    expect(client.parseRetryAfter("soon")).toBeNull()
+  })
+})
+
+describe("httpFetch", () => {
+  let cwd: string
+
+  beforeEach(async () => {
+    // Settings are cached per project, so every test gets its own.
+    cwd = await fs.mkdtemp(path.join(tmpdir(), "tiptap-http-"))
+    for (const name of [
+      "HTTP_PROXY",
+      "http_proxy",
+      "HTTPS_PROXY",
+      "https_proxy",
+      "NO_PROXY",
+      "no_proxy",
+    ]) {
+      vi.stubEnv(name, "")
+    }
+  })
+
+  afterEach(async () => {
+    vi.unstubAllEnvs()
+    await fs.rm(cwd, { recursive: true, force: true })
+  })
+
+  describe("through a proxy", () => {
+    const proxied: string[] = []
+    let proxy: Awaited<ReturnType<typeof listen>>
+
+    beforeAll(async () => {
+      // Plain http requests reach a forward proxy with an absolute URL.
+      proxy = await listen((request, response) => {
+        proxied.push(request.url!)
+        response.end(JSON.stringify({ proxied: true }))
+      })
+    })
+
+    afterAll(async () => {
+      await new Promise((resolve) => proxy.server.close(resolve))
+    })
+
+    afterEach(() => {
+      proxied.length = 0
+    })
+
+    test("forwards http targets through the proxy", async () => {
+      vi.stubEnv("HTTP_PROXY", proxy.origin)
+
+      const response = await client.httpFetch(
+        "http://registry.test/r/index.json",
+        { cwd }
+      )
+
+      expect(await response.json()).toEqual({ proxied: true })
+      expect(proxied).toEqual(["http://registry.test/r/index.json"])
+    })
+
+    test("reads the proxy from the project .npmrc", async () => {
+      await fs.writeFile(path.join(cwd, ".npmrc"), `proxy=${proxy.origin}\n`)
+
+      await client.httpFetch("http://registry.test/r/button.json", { cwd })
+
+      expect(proxied).toEqual(["http://registry.test/r/button.json"])
+    })
+
+    test("skips the proxy for no_proxy hosts", async () => {
+      const { server, origin } = await listen((_request, response) => {
+        response.end(JSON.stringify({ proxied: false }))
+      })
+      vi.stubEnv("HTTP_PROXY", proxy.origin)
+      vi.stubEnv("NO_PROXY", "127.0.0.1")
+
+      const response = await client.httpFetch(`${origin}/r/index.json`, { cwd })
+
+      expect(await response.json()).toEqual({ proxied: false })
+      expect(proxied).toEqual([])
+      await new Promise((resolve) => server.close(resolve))
+    })
+  })
+
+  describe("streamed downloads", () => {
+    let server: http.Server
+    let origin: string
+
+    beforeAll(async () => {
+      ;({ server, origin } = await listen(async (request, response) => {
+        response.writeHead(200)
+        for (let chunk = 0; chunk < 4; chunk++) {
+          response.write(`${chunk}`)
+          await new Promise((resolve) => setTimeout(resolve, 100))
+        }
+
+        // Never ends, closed when the server shuts down.
+        if (request.url === "/stalled") {
+          return
+        }
+        response.end()
+      }))
+    })
+
+    afterAll(async () => {
+      server.closeAllConnections()
+      await new Promise((resolve) => server.close(resolve))
+    })
+
+    test("finish while data keeps arriving", async () => {
+      const response = await client.httpFetch(`${origin}/slow`, {
+        cwd,
+        stream: true,
+        timeout: 250,
+      })
+
+      expect(await response.text()).toBe("0123")
+    })
+
+    test("time out once data stops arriving", async () => {
+      const response = await client.httpFetch(`${origin}/stalled`, {
+        cwd,
+        stream: true,
+        timeout: 250,
+      })
+
+      await expect(response.text()).rejects.toThrow(
+        "The request timed out after 0.25s."
+      )
+    })
+
+    test("are buffered within the timeout otherwise", async () => {
+      await expect(
+        client.httpFetch(`${origin}/stalled`, { cwd, timeout: 250 })
+      ).rejects.toThrow("The request timed out after 0.25s.")
+    })
+  })
+
+  describe("retries", () => {
+    const responses: [number, Record<string, string>?][] = []
+    const methods: string[] = []
+    let server: http.Server
+    let origin: string
+
+    beforeAll(async () => {
+      ;({ server, origin } = await listen((request, response) => {
+        methods.push(request.method!)
+        const [status, headers] = responses.shift() ?? [200]
+        response.writeHead(status, headers).end(`${status}`)
+      }))
+    })
+
+    afterAll(async () => {
+      await new Promise((resolve) => server.close(resolve))
+    })
+
+    afterEach(() => {
+      responses.length = 0
+      methods.length = 0
+    })
+
+    test("retry server errors", async () => {
+      responses.push([503])
+
+      const response = await client.httpFetch(origin, { cwd })
+
+      expect(response.status).toBe(200)
+      expect(methods).toEqual(["GET", "GET"])
+    })
+
+    test("return the last response once retries run out", async () => {
+      responses.push([502], [503])
+
+      const response = await client.httpFetch(origin, { cwd })
+
+      expect(response.status).toBe(503)
+      expect(await response.text()).toBe("503")
+    })
+
+    test("wait as long as Retry-After asks", async () => {
+      responses.push([429, { "Retry-After": "0" }])
+
+      const response = await client.httpFetch(origin, { cwd })
+
+      expect(response.status).toBe(200)
+      expect(methods).toEqual(["GET", "GET"])
+    })
+
+    test("give up on long Retry-After delays", async () => {
+      responses.push([429, { "Retry-After": "120" }])
+
+      const response = await client.httpFetch(origin, { cwd })
+
+      expect(response.status).toBe(429)
+      expect(methods).toEqual(["GET"])
+    })
+
+    test("never retry other methods", async () => {
+      responses.push([503])
+
+      const response = await client.httpFetch(origin, { cwd, method: "POST" })
+
+      expect(response.status).toBe(503)
+      expect(methods).toEqual(["POST"])
+    })
+  })
+})
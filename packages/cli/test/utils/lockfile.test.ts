@@ -0,0 +1,150 @@
+import { promises as fs } from "fs"
+import { tmpdir } from "os"
+import path from "path"
+import { type Config } from "@/src/utils/get-config"
+import {
+  getLockfilePath,
+  hashContent,
+  readLockfile,
+  updateLockfile,
+  writeLockfile,
+  type Lockfile,
+} from "@/src/utils/lockfile"
+import { type RegistryResolvedItem } from "@/src/utils/registry/schema"
+import { afterEach, beforeEach, describe, expect, test } from "vitest"
+
+const button: RegistryResolvedItem = {
+  name: "button",
+  type: "registry:ui",
+  version: "1.2.0",
+  hidden: true,
+  source: "https://template.tiptap.dev/r/button.json",
+  registryDependencies: ["tooltip@^1.0.0"],
+  dependencies: ["@floating-ui/react"],
+  files: [
+    { path: "ui/button/button.tsx", type: "registry:ui" },
+    { path: "ui/button/button.scss", type: "registry:ui" },
+  ],
+}
+
+describe("lockfile", () => {
+  let cwd: string
+  let config: Config
+
+  beforeEach(async () => {
+    cwd = await fs.mkdtemp(path.join(tmpdir(), "tiptap-lockfile-"))
+    config = { resolvedPaths: { cwd } } as Config
+  })
+
+  afterEach(async () => {
+    await fs.rm(cwd, { recursive: true, force: true })
+  })
+
+  test("returns null when there is no lockfile", async () => {
+    expect(await readLockfile(cwd)).toBeNull()
+  })
+
+  test("reads back what was written, with items sorted", async () => {
+    const lockfile: Lockfile = {
+      lockfileVersion: 1,
+      requested: ["button"],
+      items: {
+        tooltip: {
+          type: "registry:ui",
+          source: "https://template.tiptap.dev/r/tooltip.json",
+          registryDependencies: [],
+          dependencies: [],
+          devDependencies: [],
+          files: [],
+        },
+        button: {
+          type: "registry:ui",
+          version: "1.2.0",
+          source: button.source,
+          registryDependencies: ["tooltip"],
+          dependencies: [],
+          devDependencies: [],
+          files: [],
+        },
+      },
+    }
+
+    await writeLockfile(cwd, lockfile)
+
+    const written = await readLockfile(cwd)
+    expect(written).toEqual(lockfile)
+    expect(Object.keys(written!.items)).toEqual(["button", "tooltip"])
+  })
+
+  test("names the file when it is not valid JSON", async () => {
+    await fs.writeFile(getLockfilePath(cwd), "{ not json", "utf-8")
+
+    await expect(readLockfile(cwd)).rejects.toThrow(
+      /Failed to parse .*tiptap-lock\.json/
+    )
+  })
+
+  test("names the invalid keys when the schema does not match", async () => {
+    await fs.writeFile(
+      getLockfilePath(cwd),
+      JSON.stringify({ lockfileVersion: 2, items: {} }),
+      "utf-8"
+    )
+
+    await expect(readLockfile(cwd)).rejects.toThrow(
+      /Invalid lockfile .*tiptap-lock\.json:\n.*lockfileVersion/
+    )
+  })
+
+  test("records written files relative to the project", async () => {
+    const target = path.join(cwd, "src/components/button.tsx")
+    const hash = hashContent("export const Button = null\n")
+
+    const lockfile = await updateLockfile(
+      config,
+      [button],
+      [{ path: "ui/button/button.tsx", target, hash }],
+      ["button@^1.0.0"]
+    )
+
+    expect(lockfile.requested).toEqual(["button"])
+    expect(lockfile.items.button).toEqual({
+      type: "registry:ui",
+      version: "1.2.0",
+      source: button.source,
+      registryDependencies: ["tooltip"],
+      dependencies: ["@floating-ui/react"],
+      devDependencies: [],
+      files: [
+        {
+          path: "ui/button/button.tsx",
+          target: path.join("src", "components", "button.tsx"),
+          hash,
+        },
+      ],
+    })
+    expect(await readLockfile(cwd)).toEqual(lockfile)
+  })
+
+  test("keeps the locked entry of files that were not written", async () => {
+    const scss = {
+      path: "ui/button/button.scss",
+      target: path.join(cwd, "src/components/button.scss"),
+      hash: hashContent("old"),
+    }
+    await updateLockfile(config, [button], [scss])
+
+    const tsx = {
+      path: "ui/button/button.tsx",
+      target: path.join(cwd, "src/components/button.tsx"),
+      hash: hashContent("new"),
+    }
+    const lockfile = await updateLockfile(config, [button], [tsx])
+
+    expect(lockfile.items.button.files.map((file) => file.path)).toEqual([
+      "ui/button/button.tsx",
+      "ui/button/button.scss",
+    ])
+    expect(lockfile.items.button.files[1].hash).toBe(scss.hash)
+  })
+})
@@ -0,0 +1,90 @@
+import { promises as fs } from "fs"
+import { tmpdir } from "os"
+import path from "path"
+import { type Config } from "@/src/utils/get-config"
+import {
+  getPristineFilePath,
+  mergeFileContent,
+  readPristineFile,
+  writePristineFile,
+} from "@/src/utils/pristine"
+import { afterEach, beforeEach, describe, expect, test } from "vitest"
+
+const base = ["import a from 'a'", "", "export const size = 1", ""].join("\n")
+
+describe("mergeFileContent", () => {
+  test("applies registry changes on top of local edits", () => {
+    const local = base.replace("import a from 'a'", "import a from './a'")
+    const incoming = base.replace("size = 1", "size = 2")
+
+    expect(mergeFileContent({ local, base, incoming })).toEqual({
+      conflict: false,
+      content: ["import a from './a'", "", "export const size = 2", ""].join(
+        "\n"
+      ),
+    })
+  })
+
+  test("keeps the local copy when the registry did not change", () => {
+    const local = base.replace("size = 1", "size = 3")
+
+    expect(mergeFileContent({ local, base, incoming: base })).toEqual({
+      conflict: false,
+      content: local,
+    })
+  })
+
+  test("marks overlapping edits as conflicts", () => {
+    const local = base.replace("size = 1", "size = 3")
+    const incoming = base.replace("size = 1", "size = 2")
+
+    const { conflict, content } = mergeFileContent({ local, base, incoming })
+
+    expect(conflict).toBe(true)
+    expect(content).toContain("<<<<<<< local")
+    expect(content).toContain("export const size = 3")
+    expect(content).toContain("||||||| pristine")
+    expect(content).toContain("export const size = 1")
+    expect(content).toContain("export const size = 2")
+    expect(content).toContain(">>>>>>> registry")
+  })
+
+  test("ignores CRLF line endings in the local copy", () => {
+    const local = base.replace(/\n/g, "\r\n")
+    const incoming = base.replace("size = 1", "size = 2")
+
+    expect(mergeFileContent({ local, base, incoming })).toEqual({
+      conflict: false,
+      content: incoming,
+    })
+  })
+})
+
+describe("pristine files", () => {
+  let cwd: string
+  let config: Config
+
+  beforeEach(async () => {
+    cwd = await fs.mkdtemp(path.join(tmpdir(), "tiptap-pristine-"))
+    config = { resolvedPaths: { cwd } } as Config
+  })
+
+  afterEach(async () => {
+    await fs.rm(cwd, { recursive: true, force: true })
+  })
+
+  test("mirrors the project layout under .tiptap/pristine", () => {
+    expect(
+      getPristineFilePath(config, path.join(cwd, "src/components/a.tsx"))
+    ).toBe(path.join(cwd, ".tiptap/pristine/src/components/a.tsx"))
+  })
+
+  test("reads back what was written", async () => {
+    const filePath = path.join(cwd, "src/components/a.tsx")
+
+    expect(await readPristineFile(config, filePath)).toBeNull()
+
+    await writePristineFile(config, filePath, base)
+    expect(await readPristineFile(config, filePath)).toBe(base)
+  })
+})
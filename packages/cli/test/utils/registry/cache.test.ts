@@ -0,0 +1,126 @@
+import { promises as fs } from "fs"
+import http from "http"
+import { type AddressInfo } from "net"
+import { tmpdir } from "os"
+import path from "path"
+import { type Config } from "@/src/utils/get-config"
+import { logger } from "@/src/utils/logger"
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  describe,
+  expect,
+  test,
+  vi,
+} from "vitest"
+
+describe("registry cache", () => {
+  const requests: string[] = []
+  const etags: (string | undefined)[] = []
+  let server: http.Server
+  let cwd: string
+  let config: Config
+  let registry: typeof import("@/src/utils/registry")
+  let cache: typeof import("@/src/utils/registry/cache")
+
+  beforeAll(async () => {
+    server = http.createServer((request, response) => {
+      requests.push(request.url!)
+      etags.push(request.headers["if-none-match"])
+
+      if (request.headers["if-none-match"] === '"v1"') {
+        response.writeHead(304).end()
+        return
+      }
+
+      response.setHeader("etag", '"v1"')
+      response.end(JSON.stringify({ url: request.url }))
+    })
+    await new Promise<void>((resolve) => server.listen(0, resolve))
+
+    cwd = await fs.mkdtemp(path.join(tmpdir(), "tiptap-cache-"))
+    config = { resolvedPaths: { cwd } } as Config
+
+    // Read when the registry modules load.
+    vi.stubEnv(
+      "REGISTRY_URL",
+      `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+    )
+    vi.stubEnv("TIPTAP_CACHE_DIR", path.join(cwd, "cache"))
+    vi.stubEnv("TIPTAP_CACHE_TTL", "0")
+    vi.stubEnv("TIPTAP_REGISTRY_TOKEN", "test-token")
+    registry = await import("@/src/utils/registry")
+    cache = await import("@/src/utils/registry/cache")
+  })
+
+  afterEach(() => {
+    cache.configureRegistryCache({ offline: false })
+    requests.length = 0
+    etags.length = 0
+    vi.restoreAllMocks()
+  })
+
+  afterAll(async () => {
+    vi.unstubAllEnvs()
+    await new Promise((resolve) => server.close(resolve))
+    await fs.rm(cwd, { recursive: true, force: true })
+  })
+
+  test("keys entries by url and request headers", async () => {
+    const url = "https://registry.example.com/r/button.json"
+    await cache.writeRegistryCache(
+      url,
+      { Authorization: "Bearer a" },
+      { name: "button" },
+      null
+    )
+
+    expect(
+      await cache.readRegistryCache(url, { Authorization: "Bearer a" })
+    ).toMatchObject({ url, etag: null, data: { name: "button" } })
+    expect(
+      await cache.readRegistryCache(url, { Authorization: "Bearer b" })
+    ).toBeNull()
+    expect(await cache.readRegistryCache(url, {})).toBeNull()
+  })
+
+  test("revalidates stale entries with their etag", async () => {
+    const [first] = await registry.fetchRegistry(["r/toolbar.json"], config)
+    const [second] = await registry.fetchRegistry(["r/toolbar.json"], config)
+
+    expect(second).toEqual(first)
+    expect(requests).toEqual(["/r/toolbar.json", "/r/toolbar.json"])
+    expect(etags).toEqual([undefined, '"v1"'])
+  })
+
+  test("serves cached entries offline without a request", async () => {
+    const [online] = await registry.fetchRegistry(["r/editor.json"], config)
+    requests.length = 0
+
+    cache.configureRegistryCache({ offline: true })
+    const [offline] = await registry.fetchRegistry(["r/editor.json"], config)
+
+    expect(offline).toEqual(online)
+    expect(requests).toEqual([])
+  })
+
+  test("exits with the offline cache miss code for uncached entries", async () => {
+    vi.spyOn(logger, "error").mockImplementation(() => {})
+    vi.spyOn(logger, "break").mockImplementation(() => {})
+    const exit = vi.spyOn(process, "exit").mockImplementation((code) => {
+      throw new Error(`exit ${code}`)
+    })
+
+    cache.configureRegistryCache({ offline: true })
+
+    await expect(
+      registry.fetchRegistry(["r/uncached.json"], config)
+    ).rejects.toThrow("exit 15")
+    expect(exit).toHaveBeenCalledWith(15)
+    expect(logger.error).toHaveBeenCalledWith(
+      expect.stringContaining("is not available offline")
+    )
+    expect(requests).toEqual([])
+  })
+})
@@ -0,0 +1,209 @@
+import { generateKeyPairSync, sign } from "crypto"
+import { promises as fs } from "fs"
+import http from "http"
+import { type AddressInfo } from "net"
+import { tmpdir } from "os"
+import path from "path"
+import { type Config } from "@/src/utils/get-config"
+import { type RegistryResolvedItem } from "@/src/utils/registry/schema"
+import { afterAll, beforeAll, describe, expect, test, vi } from "vitest"
+
+type Integrity = typeof import("@/src/utils/registry/integrity")
+
+const OLD_CONTENT = "export const Button = 1\n"
+const LATEST_CONTENT = "export const Button = 2\n"
+
+function createKey() {
+  const { publicKey, privateKey } = generateKeyPairSync("ed25519")
+  return {
+    privateKey,
+    publicKey: publicKey.export({ type: "spki", format: "pem" }).toString(),
+  }
+}
+
+describe("integrity", () => {
+  const signingKey = createKey()
+  let server: http.Server
+  let registryUrl: string
+  let cwd: string
+  let integrity: Integrity
+
+  const getConfig = (publicKey?: string) =>
+    ({ resolvedPaths: { cwd }, publicKey }) as Config
+
+  const getButton = (version: string, content: string) =>
+    ({
+      name: "button",
+      type: "registry:ui",
+      version,
+      source: `${registryUrl}/api/registry/components/button?version=${version}`,
+      files: [{ path: "ui/button.tsx", type: "registry:ui", content }],
+    }) as RegistryResolvedItem
+
+  beforeAll(async () => {
+    server = http.createServer()
+    await new Promise<void>((resolve) => server.listen(0, resolve))
+    registryUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+
+    cwd = await fs.mkdtemp(path.join(tmpdir(), "tiptap-integrity-"))
+
+    // Read when the registry modules load.
+    vi.stubEnv("REGISTRY_URL", registryUrl)
+    vi.stubEnv("TIPTAP_CACHE_DIR", path.join(cwd, "cache"))
+    vi.stubEnv("TIPTAP_REGISTRY_TOKEN", "test-token")
+    integrity = await import("@/src/utils/registry/integrity")
+
+    const index = [
+      {
+        name: "button",
+        type: "registry:ui",
+        version: "2.0.0",
+        versions: ["1.0.0", "2.0.0"],
+        files: [
+          {
+            path: "ui/button.tsx",
+            type: "registry:ui",
+            integrity: integrity.getIntegrity(LATEST_CONTENT),
+          },
+        ],
+        integrity: {
+          "1.0.0": { "ui/button.tsx": integrity.getIntegrity(OLD_CONTENT) },
+        },
+      },
+    ]
+    const signature = sign(
+      null,
+      integrity.getIndexSigningPayload(index),
+      signingKey.privateKey
+    ).toString("base64")
+
+    server.on("request", (request, response) => {
+      if (request.url === `/${integrity.INDEX_SIGNATURE_PATH}`) {
+        response.end(JSON.stringify({ signature }))
+      } else if (request.url === "/r/index.json") {
+        response.end(JSON.stringify(index))
+      } else {
+        response.writeHead(404).end()
+      }
+    })
+  })
+
+  afterAll(async () => {
+    vi.unstubAllEnvs()
+    await new Promise((resolve) => server.close(resolve))
+    await fs.rm(cwd, { recursive: true, force: true })
+  })
+
+  test("getIntegrity hashes content in subresource integrity format", () => {
+    expect(integrity.getIntegrity("hello")).toBe(
+      "sha256-LPJNul+wow4m6DsqxbninhsWHlwfp0JecwQzYpOLmCQ="
+    )
+    expect(integrity.getIntegrity("hello", "sha512")).toMatch(/^sha512-/)
+  })
+
+  describe("getSignedIntegrity", () => {
+    const entry = {
+      name: "button",
+      type: "registry:ui" as const,
+      hidden: true,
+      version: "2.0.0",
+      files: [
+        {
+          path: "ui/button.tsx",
+          type: "registry:ui" as const,
+          integrity: "sha256-latest",
+        },
+      ],
+      integrity: { "1.0.0": { "ui/button.tsx": "sha256-old" } },
+    }
+
+    test("prefers the integrity listed for the version", () => {
+      expect(integrity.getSignedIntegrity(entry, "1.0.0")).toEqual(
+        new Map([["ui/button.tsx", "sha256-old"]])
+      )
+    })
+
+    test("falls back to the files of the latest version", () => {
+      const latest = new Map([["ui/button.tsx", "sha256-latest"]])
+      expect(integrity.getSignedIntegrity(entry, "2.0.0")).toEqual(latest)
+      expect(integrity.getSignedIntegrity(entry)).toEqual(latest)
+    })
+
+    test("returns null for versions the index does not list", () => {
+      expect(integrity.getSignedIntegrity(entry, "1.5.0")).toBeNull()
+    })
+  })
+
+  describe("verifyRegistryItems", () => {
+    test("checks each file against its own integrity", async () => {
+      const item = getButton("2.0.0", LATEST_CONTENT)
+      item.files![0].integrity = integrity.getIntegrity(LATEST_CONTENT)
+      await expect(
+        integrity.verifyRegistryItems([item], getConfig())
+      ).resolves.toBeUndefined()
+
+      item.files![0].content = "tampered"
+      await expect(
+        integrity.verifyRegistryItems([item], getConfig())
+      ).rejects.toThrow(/ui\/button\.tsx.* does not match its integrity hash/)
+    })
+
+    test("accepts the latest and older versions listed in the signed index", async () => {
+      const config = getConfig(signingKey.publicKey)
+
+      await expect(
+        integrity.verifyRegistryItems(
+          [getButton("2.0.0", LATEST_CONTENT)],
+          config
+        )
+      ).resolves.toBeUndefined()
+      await expect(
+        integrity.verifyRegistryItems([getButton("1.0.0", OLD_CONTENT)], config)
+      ).resolves.toBeUndefined()
+    })
+
+    test("rejects content that does not match the signed index", async () => {
+      await expect(
+        integrity.verifyRegistryItems(
+          [getButton("1.0.0", LATEST_CONTENT)],
+          getConfig(signingKey.publicKey)
+        )
+      ).rejects.toThrow(/does not match the signed registry index/)
+    })
+
+    test("rejects versions the signed index does not list", async () => {
+      await expect(
+        integrity.verifyRegistryItems(
+          [getButton("1.5.0", OLD_CONTENT)],
+          getConfig(signingKey.publicKey)
+        )
+      ).rejects.toThrow(/button@1\.5\.0.* is not listed in the signed/)
+    })
+
+    test("skips items from other registries", async () => {
+      const badge = {
+        name: "@acme/badge",
+        type: "registry:ui",
+        source: "https://acme.example/r/badge.json",
+        files: [{ path: "ui/badge.tsx", type: "registry:ui", content: "" }],
+      } as RegistryResolvedItem
+
+      await expect(
+        integrity.verifyRegistryItems([badge], getConfig(signingKey.publicKey))
+      ).resolves.toBeUndefined()
+    })
+
+    test("rejects an index signed with another key", async () => {
+      // The trusted index is kept for the whole run.
+      vi.resetModules()
+      const fresh: Integrity = await import("@/src/utils/registry/integrity")
+
+      await expect(
+        fresh.verifyRegistryItems(
+          [getButton("2.0.0", LATEST_CONTENT)],
+          getConfig(createKey().publicKey)
+        )
+      ).rejects.toThrow(/signature of the registry index does not match/)
+    })
+  })
+})
@@ -0,0 +1,186 @@
+import { promises as fs } from "fs"
+import http from "http"
+import { type AddressInfo } from "net"
+import { tmpdir } from "os"
+import path from "path"
+import { type Config } from "@/src/utils/get-config"
+import {
+  getNamespacedItemUrl,
+  getQualifiedItemName,
+  getRegistryForUrl,
+  parseNamespacedName,
+} from "@/src/utils/registry/registries"
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  describe,
+  expect,
+  test,
+  vi,
+} from "vitest"
+
+const ACME = "https://registry.acme.dev/r/{name}.json"
+
+describe("namespaced registries", () => {
+  const config = {
+    registries: {
+      "@acme": ACME,
+      "@private": {
+        url: "https://private.example.com/items/{name}",
+        params: { token: "${PRIVATE_TOKEN}", format: "json" },
+        headers: { Authorization: "Bearer ${PRIVATE_TOKEN}" },
+      },
+    },
+  } as unknown as Config
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  test("splits namespaced names", () => {
+    expect(parseNamespacedName("@acme/editor-shell")).toEqual({
+      namespace: "@acme",
+      name: "editor-shell",
+    })
+    expect(parseNamespacedName("editor-shell")).toBeNull()
+  })
+
+  test("resolves names through their registry's url template", () => {
+    vi.stubEnv("PRIVATE_TOKEN", "secret")
+
+    expect(getNamespacedItemUrl("@acme/editor-shell", config)).toBe(
+      "https://registry.acme.dev/r/editor-shell.json"
+    )
+    expect(getNamespacedItemUrl("@private/toolbar", config)).toBe(
+      "https://private.example.com/items/toolbar?token=secret&format=json"
+    )
+    expect(getNamespacedItemUrl("toolbar", config)).toBeNull()
+  })
+
+  test("rejects namespaces missing from components.json", () => {
+    expect(() => getNamespacedItemUrl("@unknown/toolbar", config)).toThrow(
+      /Unknown registry .*@unknown.* for @unknown\/toolbar/
+    )
+  })
+
+  test("matches urls to the registry serving them", () => {
+    vi.stubEnv("PRIVATE_TOKEN", "secret")
+
+    expect(
+      getRegistryForUrl("https://private.example.com/items/toolbar", config)
+    ).toMatchObject({
+      namespace: "@private",
+      headers: { Authorization: "Bearer secret" },
+    })
+    expect(
+      getRegistryForUrl("https://template.tiptap.dev/r/toolbar.json", config)
+    ).toBeNull()
+  })
+
+  test("qualifies item names with the namespace of their source", () => {
+    expect(
+      getQualifiedItemName(
+        "editor-shell",
+        "https://registry.acme.dev/r/editor-shell.json",
+        config
+      )
+    ).toBe("@acme/editor-shell")
+    expect(
+      getQualifiedItemName(
+        "toolbar",
+        "https://template.tiptap.dev/r/toolbar.json",
+        config
+      )
+    ).toBe("toolbar")
+  })
+})
+
+describe("resolving namespaced items", () => {
+  const requests: { url: string; authorization?: string }[] = []
+  let server: http.Server
+  let cwd: string
+  let config: Config
+  let resolveRegistryItems: typeof import("@/src/utils/registry").resolveRegistryItems
+
+  beforeAll(async () => {
+    server = http.createServer((request, response) => {
+      const url = new URL(request.url!, "http://localhost")
+      requests.push({
+        url: url.pathname,
+        authorization: request.headers.authorization,
+      })
+
+      if (url.pathname === "/acme/editor-shell.json") {
+        response.end(
+          JSON.stringify({
+            name: "editor-shell",
+            type: "registry:template",
+            registryDependencies: ["@acme/shell-theme", "button"],
+          })
+        )
+        return
+      }
+
+      if (url.pathname === "/acme/shell-theme.json") {
+        response.end(
+          JSON.stringify({ name: "shell-theme", type: "registry:style" })
+        )
+        return
+      }
+
+      if (url.pathname === "/api/registry/components/button") {
+        response.end(
+          JSON.stringify({ name: "button", type: "registry:ui-primitive" })
+        )
+        return
+      }
+
+      response.writeHead(404).end()
+    })
+    await new Promise<void>((resolve) => server.listen(0, resolve))
+
+    const origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+    cwd = await fs.mkdtemp(path.join(tmpdir(), "tiptap-registries-"))
+    config = {
+      resolvedPaths: { cwd },
+      registries: {
+        "@acme": {
+          url: `${origin}/acme/{name}.json`,
+          headers: { Authorization: "Bearer ${ACME_TOKEN}" },
+        },
+      },
+    } as unknown as Config
+
+    // Read when the registry modules load.
+    vi.stubEnv("REGISTRY_URL", origin)
+    vi.stubEnv("TIPTAP_CACHE_DIR", path.join(cwd, "cache"))
+    vi.stubEnv("TIPTAP_REGISTRY_TOKEN", "tiptap-token")
+    vi.stubEnv("ACME_TOKEN", "acme-token")
+    ;({ resolveRegistryItems } = await import("@/src/utils/registry"))
+  })
+
+  afterAll(async () => {
+    vi.unstubAllEnvs()
+    await new Promise((resolve) => server.close(resolve))
+    await fs.rm(cwd, { recursive: true, force: true })
+  })
+
+  test("fetches each item from its registry with that registry's headers", async () => {
+    const items = await resolveRegistryItems(["@acme/editor-shell"], config)
+
+    expect(items.map(({ name }) => name)).toEqual([
+      "@acme/editor-shell",
+      "@acme/shell-theme",
+      "button",
+    ])
+    expect(requests.filter(({ url }) => url.startsWith("/acme/"))).toEqual([
+      { url: "/acme/editor-shell.json", authorization: "Bearer acme-token" },
+      { url: "/acme/shell-theme.json", authorization: "Bearer acme-token" },
+    ])
+    // Plain names still resolve through the Tiptap registry, with its token.
+    expect(
+      requests.find(({ url }) => url === "/api/registry/components/button")
+    ).toMatchObject({ authorization: "Bearer tiptap-token" })
+  })
+})
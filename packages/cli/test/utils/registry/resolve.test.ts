@@ -0,0 +1,178 @@
+import { promises as fs } from "fs"
+import http from "http"
+import { type AddressInfo } from "net"
+import { tmpdir } from "os"
+import path from "path"
+import { INVALID_REGISTRY_ITEM, RegistryError } from "@/src/utils/errors"
+import { type Config } from "@/src/utils/get-config"
+import { type RegistryItem } from "@/src/utils/registry/schema"
+import { afterAll, beforeAll, describe, expect, test, vi } from "vitest"
+
+type Published = Omit<RegistryItem, "version" | "hidden">
+
+// Versions of each item, oldest first.
+const REGISTRY: Record<string, Record<string, Published>> = {
+  toolbar: {
+    "1.0.0": {
+      name: "toolbar",
+      type: "registry:ui",
+      registryDependencies: ["button@^1.0.0", "tooltip"],
+    },
+  },
+  "link-popover": {
+    "1.0.0": {
+      name: "link-popover",
+      type: "registry:ui",
+      registryDependencies: ["button@<1.2.0"],
+    },
+  },
+  button: Object.fromEntries(
+    ["1.0.0", "1.1.0", "1.2.0", "2.0.0"].map((version) => [
+      version,
+      { name: "button", type: "registry:ui-primitive" },
+    ])
+  ),
+  tooltip: {
+    "1.0.0": { name: "tooltip", type: "registry:ui-primitive" },
+  },
+  "color-picker": {
+    "1.0.0": {
+      name: "color-picker",
+      type: "registry:ui",
+      registryDependencies: ["button@^2.0.0"],
+    },
+  },
+  "cycle-a": {
+    "1.0.0": {
+      name: "cycle-a",
+      type: "registry:ui",
+      registryDependencies: ["cycle-b"],
+    },
+  },
+  "cycle-b": {
+    "1.0.0": {
+      name: "cycle-b",
+      type: "registry:ui",
+      registryDependencies: ["cycle-a"],
+    },
+  },
+}
+
+describe("resolveRegistryItems", () => {
+  const requests: string[] = []
+  let server: http.Server
+  let cwd: string
+  let config: Config
+  let resolveRegistryItems: typeof import("@/src/utils/registry").resolveRegistryItems
+
+  beforeAll(async () => {
+    server = http.createServer((request, response) => {
+      const url = new URL(request.url!, "http://localhost")
+      requests.push(`${url.pathname}${url.search}`)
+
+      if (url.pathname === "/r/index.json") {
+        response.end(
+          JSON.stringify(
+            Object.values(REGISTRY).map((versions) => {
+              const published = Object.keys(versions)
+              const latest = published[published.length - 1]
+              return {
+                ...versions[latest],
+                version: latest,
+                versions: published,
+              }
+            })
+          )
+        )
+        return
+      }
+
+      const name = url.pathname.replace("/api/registry/components/", "")
+      if (name === "broken") {
+        response.end(JSON.stringify({ name, type: "registry:unknown" }))
+        return
+      }
+
+      const versions = REGISTRY[name] ?? {}
+      const published = Object.keys(versions)
+      const version =
+        url.searchParams.get("version") ?? published[published.length - 1]
+      if (!versions[version]) {
+        response.writeHead(404).end()
+        return
+      }
+
+      response.end(JSON.stringify({ ...versions[version], version }))
+    })
+    await new Promise<void>((resolve) => server.listen(0, resolve))
+
+    cwd = await fs.mkdtemp(path.join(tmpdir(), "tiptap-resolve-"))
+    config = { resolvedPaths: { cwd } } as Config
+
+    // Read when the registry modules load.
+    vi.stubEnv(
+      "REGISTRY_URL",
+      `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+    )
+    vi.stubEnv("TIPTAP_CACHE_DIR", path.join(cwd, "cache"))
+    vi.stubEnv("TIPTAP_REGISTRY_TOKEN", "test-token")
+    ;({ resolveRegistryItems } = await import("@/src/utils/registry"))
+  })
+
+  afterAll(async () => {
+    vi.unstubAllEnvs()
+    await new Promise((resolve) => server.close(resolve))
+    await fs.rm(cwd, { recursive: true, force: true })
+  })
+
+  test("picks one version satisfying every dependent and fetches it once", async () => {
+    const items = await resolveRegistryItems(
+      ["toolbar", "link-popover"],
+      config
+    )
+
+    expect(items.map(({ name, version }) => `${name}@${version}`)).toEqual([
+      "toolbar@1.0.0",
+      "button@1.1.0",
+      "tooltip@1.0.0",
+      "link-popover@1.0.0",
+    ])
+    expect(
+      requests.filter((request) =>
+        request.startsWith("/api/registry/components/button")
+      )
+    ).toEqual(["/api/registry/components/button?version=1.1.0"])
+  })
+
+  test("installs the version pinned on the command line", async () => {
+    const [button] = await resolveRegistryItems(["button@1.0.0"], config)
+
+    expect(button.version).toBe("1.0.0")
+    expect(button.source).toMatch(/\/button\?version=1\.0\.0$/)
+  })
+
+  test("reports incompatible ranges of different dependents", async () => {
+    await expect(
+      resolveRegistryItems(["toolbar", "color-picker"], config)
+    ).rejects.toThrow(/No version of .*button.* satisfies every requirement/)
+  })
+
+  test("reports dependency cycles", async () => {
+    await expect(resolveRegistryItems(["cycle-a"], config)).rejects.toThrow(
+      "Circular registry dependency: cycle-a → cycle-b → cycle-a."
+    )
+  })
+
+  test("rejects items that do not match the registry schema", async () => {
+    const error = await resolveRegistryItems(
+      ["toolbar", "broken"],
+      config
+    ).catch((error) => error)
+
+    expect(error).toBeInstanceOf(RegistryError)
+    expect(error.code).toBe(INVALID_REGISTRY_ITEM)
+    expect(error.message).toMatch(
+      /\/api\/registry\/components\/broken did not return a valid registry item:\n {2}- type: /
+    )
+  })
+})
@@ -0,0 +1,71 @@
+import {
+  parseItemSpecifier,
+  pickItemVersion,
+} from "@/src/utils/registry/versions"
+import { describe, expect, test } from "vitest"
+
+describe("parseItemSpecifier", () => {
+  test.each([
+    ["button", { name: "button", range: null }],
+    ["button@1.2.0", { name: "button", range: "1.2.0" }],
+    ["link-popover@^1.2.0", { name: "link-popover", range: "^1.2.0" }],
+    ["@acme/editor", { name: "@acme/editor", range: null }],
+    ["@acme/editor@~2.0.0", { name: "@acme/editor", range: "~2.0.0" }],
+    [
+      "https://example.com/r/button@1.json",
+      { name: "https://example.com/r/button@1.json", range: null },
+    ],
+  ])("parses %s", (specifier, expected) => {
+    expect(parseItemSpecifier(specifier)).toEqual(expected)
+  })
+
+  test("rejects ranges that are not semver", () => {
+    expect(() => parseItemSpecifier("button@latest")).toThrow(
+      /Invalid version .*latest.* for button/
+    )
+  })
+})
+
+describe("pickItemVersion", () => {
+  const available = ["1.0.0", "1.1.0", "1.2.3", "2.0.0", "not-a-version"]
+
+  test("returns null when nothing is constrained", () => {
+    expect(pickItemVersion("button", available, [])).toBeNull()
+  })
+
+  test("picks the highest version satisfying the range", () => {
+    expect(
+      pickItemVersion("button", available, [
+        { range: "^1.0.0", requiredBy: null },
+      ])
+    ).toBe("1.2.3")
+  })
+
+  test("intersects the ranges of every dependent", () => {
+    expect(
+      pickItemVersion("button", available, [
+        { range: "^1.0.0", requiredBy: "toolbar" },
+        { range: "<1.2.0", requiredBy: "link-popover" },
+      ])
+    ).toBe("1.1.0")
+  })
+
+  test("reports who required what when no version satisfies every range", () => {
+    const pick = () =>
+      pickItemVersion("button", available, [
+        { range: "^2.0.0", requiredBy: null },
+        { range: "~1.1.0", requiredBy: "toolbar" },
+      ])
+
+    expect(pick).toThrow(/satisfies every requirement/)
+    expect(pick).toThrow(/you requested .*\^2\.0\.0/)
+    expect(pick).toThrow(/toolbar requires .*~1\.1\.0/)
+    expect(pick).toThrow(/Available versions: 1\.0\.0, 1\.1\.0/)
+  })
+
+  test("explains when the registry publishes no versions", () => {
+    expect(() =>
+      pickItemVersion("button", [], [{ range: "1.0.0", requiredBy: null }])
+    ).toThrow(/does not publish versions for button/)
+  })
+})
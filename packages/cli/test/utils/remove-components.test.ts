@@ -0,0 +1,194 @@
+import { promises as fs } from "fs"
+import { tmpdir } from "os"
+import path from "path"
+import { type Config } from "@/src/utils/get-config"
+import { type Lockfile, type LockfileItem } from "@/src/utils/lockfile"
+import {
+  getUnusedDependencies,
+  getWorkspaceDependencies,
+  planRemoval,
+} from "@/src/utils/remove-components"
+import { afterEach, beforeEach, describe, expect, test } from "vitest"
+
+function item(overrides: Partial<LockfileItem> = {}): LockfileItem {
+  return {
+    type: "registry:ui",
+    source: "https://template.tiptap.dev/r",
+    registryDependencies: [],
+    dependencies: [],
+    devDependencies: [],
+    files: [],
+    ...overrides,
+  }
+}
+
+describe("planRemoval", () => {
+  const lockfile: Lockfile = {
+    lockfileVersion: 1,
+    requested: ["editor", "toolbar"],
+    items: {
+      editor: item({
+        registryDependencies: ["button", "tooltip"],
+        dependencies: ["@tiptap/react@^3.0.0"],
+        files: [{ path: "editor.tsx", target: "src/editor.tsx", hash: "" }],
+      }),
+      toolbar: item({
+        registryDependencies: ["button"],
+        files: [{ path: "toolbar.tsx", target: "src/toolbar.tsx", hash: "" }],
+      }),
+      button: item({
+        dependencies: ["clsx"],
+        files: [{ path: "button.tsx", target: "src/button.tsx", hash: "" }],
+      }),
+      tooltip: item({
+        registryDependencies: [],
+        dependencies: ["@floating-ui/react@^0.27.0"],
+        devDependencies: ["sass"],
+        files: [{ path: "tooltip.tsx", target: "src/tooltip.tsx", hash: "" }],
+      }),
+    },
+  }
+
+  test("removes dependencies no remaining item needs", async () => {
+    expect(await planRemoval(lockfile, ["editor"])).toEqual({
+      items: ["editor", "tooltip"],
+      files: ["src/editor.tsx", "src/tooltip.tsx"],
+      dependencies: ["@floating-ui/react", "@tiptap/react"],
+      devDependencies: ["sass"],
+      retained: [],
+    })
+  })
+
+  test("keeps items another requested item depends on", async () => {
+    const plan = await planRemoval(lockfile, ["button"])
+
+    expect(plan.items).toEqual([])
+    expect(plan.retained).toEqual([
+      { name: "button", requiredBy: ["editor", "toolbar"] },
+    ])
+  })
+
+  test("treats items nothing depends on as requested in older lockfiles", async () => {
+    const plan = await planRemoval({ ...lockfile, requested: [] }, ["toolbar"])
+
+    expect(plan.items).toEqual(["toolbar"])
+    expect(plan.dependencies).toEqual([])
+  })
+})
+
+describe("getUnusedDependencies", () => {
+  let cwd: string
+  let config: Config
+
+  beforeEach(async () => {
+    cwd = await fs.mkdtemp(path.join(tmpdir(), "tiptap-remove-"))
+    config = { resolvedPaths: { cwd } } as Config
+
+    await fs.writeFile(
+      path.join(cwd, "package.json"),
+      JSON.stringify({
+        dependencies: { "@floating-ui/react": "^0.27.0", clsx: "^2.0.0" },
+        devDependencies: { sass: "^1.0.0" },
+      })
+    )
+    await fs.mkdir(path.join(cwd, "src"))
+  })
+
+  afterEach(async () => {
+    await fs.rm(cwd, { recursive: true, force: true })
+  })
+
+  test("keeps packages that remaining files still import", async () => {
+    await fs.writeFile(
+      path.join(cwd, "src/app.tsx"),
+      `import { useFloating } from "@floating-ui/react/dom"\n`
+    )
+    await fs.writeFile(
+      path.join(cwd, "src/tooltip.tsx"),
+      `import clsx from "clsx"\nimport { useFloating } from "@floating-ui/react"\n`
+    )
+
+    expect(
+      await getUnusedDependencies(
+        ["@floating-ui/react", "clsx", "sass"],
+        ["src/tooltip.tsx"],
+        config
+      )
+    ).toEqual(["clsx", "sass"])
+  })
+
+  test("keeps packages imported by Sass files", async () => {
+    await fs.writeFile(path.join(cwd, "src/styles.scss"), `@use "sass:math";\n`)
+
+    expect(await getUnusedDependencies(["sass"], [], config)).toEqual(["sass"])
+
+    await fs.writeFile(
+      path.join(cwd, "src/styles.scss"),
+      `@use "sass/colors";\n`
+    )
+
+    expect(await getUnusedDependencies(["sass"], [], config)).toEqual([])
+  })
+
+  test("ignores packages missing from package.json", async () => {
+    expect(await getUnusedDependencies(["@tiptap/react"], [], config)).toEqual(
+      []
+    )
+  })
+
+  test("does not scan node_modules", async () => {
+    await fs.mkdir(path.join(cwd, "node_modules/lib"), { recursive: true })
+    await fs.writeFile(
+      path.join(cwd, "node_modules/lib/index.js"),
+      `require("clsx")\n`
+    )
+
+    expect(await getUnusedDependencies(["clsx"], [], config)).toEqual(["clsx"])
+  })
+})
+
+describe("getWorkspaceDependencies", () => {
+  const app = { resolvedPaths: { cwd: "/repo/apps/web" } } as Config
+  const ui = { resolvedPaths: { cwd: "/repo/packages/ui" } } as Config
+  const getTargetConfig = (lockfileItem: LockfileItem) =>
+    lockfileItem.type === "registry:ui" ? ui : app
+
+  test("uninstalls from the package the removed item was installed into", async () => {
+    const lockfile: Lockfile = {
+      lockfileVersion: 1,
+      requested: ["editor", "button"],
+      items: {
+        editor: item({
+          type: "registry:template",
+          dependencies: ["@tiptap/react@^3.0.0"],
+        }),
+        button: item({ dependencies: ["clsx"] }),
+      },
+    }
+
+    const plan = await planRemoval(lockfile, ["button"])
+
+    expect(getWorkspaceDependencies(plan, lockfile, getTargetConfig)).toEqual([
+      { config: ui, dependencies: ["clsx"] },
+    ])
+  })
+
+  test("keeps packages used by remaining items in the same package only", async () => {
+    const lockfile: Lockfile = {
+      lockfileVersion: 1,
+      requested: ["editor", "button", "toolbar"],
+      items: {
+        editor: item({ type: "registry:template", dependencies: ["clsx"] }),
+        button: item({ dependencies: ["clsx", "@floating-ui/react"] }),
+        toolbar: item({ dependencies: ["@floating-ui/react"] }),
+      },
+    }
+
+    const plan = await planRemoval(lockfile, ["button", "editor"])
+
+    expect(getWorkspaceDependencies(plan, lockfile, getTargetConfig)).toEqual([
+      { config: app, dependencies: ["clsx"] },
+      { config: ui, dependencies: ["clsx"] },
+    ])
+  })
+})
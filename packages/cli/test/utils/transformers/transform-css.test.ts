@@ -0,0 +1,108 @@
+import { promises as fs } from "fs"
+import { tmpdir } from "os"
+import path from "path"
+import { type Config } from "@/src/utils/get-config"
+import { transform } from "@/src/utils/transformers"
+import {
+  compileScss,
+  transformCss,
+} from "@/src/utils/transformers/transform-css"
+import { afterAll, beforeAll, describe, expect, test } from "vitest"
+
+describe("transformCss", () => {
+  const raw = [
+    'import "./button.scss"',
+    'import styles from "./theme.module.scss"',
+    'import "./reset.css"',
+    "",
+  ].join("\n")
+
+  test("points SCSS imports at the compiled CSS in css mode", async () => {
+    const output = await transform(
+      {
+        filename: "button.tsx",
+        raw,
+        config: { style: "css" } as Config,
+      },
+      [transformCss]
+    )
+
+    expect(output).toContain('import "./button.css"')
+    expect(output).toContain('import styles from "./theme.module.css"')
+    expect(output).toContain('import "./reset.css"')
+  })
+
+  test("leaves SCSS imports alone in scss mode", async () => {
+    const output = await transform(
+      {
+        filename: "button.tsx",
+        raw,
+        config: { style: "scss" } as Config,
+      },
+      [transformCss]
+    )
+
+    expect(output).toBe(raw)
+  })
+})
+
+describe("compileScss", () => {
+  let cwd: string
+
+  beforeAll(async () => {
+    cwd = await fs.mkdtemp(path.join(tmpdir(), "tiptap-css-"))
+    await fs.mkdir(path.join(cwd, "styles"))
+    await fs.writeFile(
+      path.join(cwd, "styles/_variables.scss"),
+      "$accent: blue;\n",
+      "utf-8"
+    )
+  })
+
+  afterAll(async () => {
+    await fs.rm(cwd, { recursive: true, force: true })
+  })
+
+  test("compiles SCSS to expanded CSS", async () => {
+    expect(
+      await compileScss("$size: 2px; .a { .b { margin: $size; } }", cwd)
+    ).toBe(".a .b {\n  margin: 2px;\n}\n")
+  })
+
+  test("resolves relative @use rules against the target path", async () => {
+    const raw = '@use "../styles/variables" as *;\n.a { color: $accent; }\n'
+
+    expect(
+      await compileScss(raw, cwd, path.join(cwd, "components/button.css"))
+    ).toBe(".a {\n  color: blue;\n}\n")
+  })
+
+  test("reports compile errors", async () => {
+    await expect(compileScss(".a { color: $missing; }", cwd)).rejects.toThrow(
+      /Failed to compile SCSS to CSS. Undefined variable/
+    )
+  })
+
+  test("runs for stylesheets in css mode, after the prefix is applied", async () => {
+    const config = {
+      style: "css",
+      prefix: "acme",
+      resolvedPaths: { cwd },
+    } as Config
+
+    expect(
+      await transform({
+        filename: "button.scss",
+        raw: ".tiptap-button { color: var(--tt-accent); }",
+        config,
+      })
+    ).toBe(".acme-button {\n  color: var(--acme-accent);\n}\n")
+    expect(
+      await transform({
+        filename: "button.scss",
+        raw: "$a: 1px;",
+        config: { ...config, style: "scss" },
+      })
+    ).toBe("$a: 1px;")
+  })
+})
@@ -0,0 +1,116 @@
+import { type Config } from "@/src/utils/get-config"
+import {
+  isMappedIconFile,
+  withIconLibraryDependencies,
+} from "@/src/utils/icon-libraries"
+import { type RegistryItem } from "@/src/utils/registry/schema"
+import { transform } from "@/src/utils/transformers"
+import { transformIcons } from "@/src/utils/transformers/transform-icons"
+import { describe, expect, test } from "vitest"
+
+const raw = [
+  'import { BoldIcon } from "@/registry/tiptap-icons/bold-icon"',
+  'import { StrikeIcon as Strike } from "@/registry/tiptap-icons/strike-icon"',
+  'import { TiptapLogo } from "@/registry/tiptap-icons/tiptap-logo"',
+  "",
+  "export const icons = [BoldIcon, Strike, TiptapLogo]",
+  "",
+].join("\n")
+
+const transformWith = (iconLibrary: Config["iconLibrary"]) =>
+  transform(
+    {
+      filename: "toolbar.tsx",
+      raw,
+      config: { iconLibrary } as Config,
+    },
+    [transformIcons]
+  )
+
+describe("transformIcons", () => {
+  test("imports mapped icons from lucide under their local names", async () => {
+    const output = await transformWith("lucide")
+
+    expect(output).toContain('import { Bold as BoldIcon } from "lucide-react"')
+    expect(output).toContain(
+      'import { Strikethrough as Strike } from "lucide-react"'
+    )
+    expect(output).toContain(
+      'import { TiptapLogo } from "@/registry/tiptap-icons/tiptap-logo"'
+    )
+    expect(output).toContain(
+      "export const icons = [BoldIcon, Strike, TiptapLogo]"
+    )
+  })
+
+  test("drops the alias when the heroicons export has the same name", async () => {
+    const output = await transformWith("heroicons")
+
+    expect(output).toContain(
+      'import { BoldIcon } from "@heroicons/react/24/outline"'
+    )
+    expect(output).toContain(
+      'import { StrikethroughIcon as Strike } from "@heroicons/react/24/outline"'
+    )
+  })
+
+  test("keeps the bundled icons by default", async () => {
+    expect(await transformWith("tiptap")).toBe(raw)
+  })
+})
+
+describe("icon library items", () => {
+  const config = { iconLibrary: "lucide" } as Config
+
+  test("skips icon files replaced by the library", () => {
+    expect(
+      isMappedIconFile(
+        { path: "icons/bold-icon.tsx", type: "registry:icon" },
+        config
+      )
+    ).toBe(true)
+    expect(
+      isMappedIconFile(
+        { path: "icons/tiptap-logo.tsx", type: "registry:icon" },
+        config
+      )
+    ).toBe(false)
+    expect(
+      isMappedIconFile({ path: "icons/bold-icon.tsx", type: "registry:icon" }, {
+        iconLibrary: "tiptap",
+      } as Config)
+    ).toBe(false)
+  })
+
+  test("adds the library to items importing mapped icons", () => {
+    const items: RegistryItem[] = [
+      {
+        name: "mark-button",
+        type: "registry:ui",
+        hidden: true,
+        dependencies: ["@tiptap/react"],
+        files: [
+          { path: "ui/mark-button.tsx", type: "registry:ui", content: raw },
+        ],
+      },
+      {
+        name: "logo",
+        type: "registry:ui",
+        hidden: true,
+        files: [
+          {
+            path: "ui/logo.tsx",
+            type: "registry:ui",
+            content:
+              'import { TiptapLogo } from "@/registry/tiptap-icons/tiptap-logo"',
+          },
+        ],
+      },
+    ]
+
+    const [markButton, logo] = withIconLibraryDependencies(items, config)
+
+    expect(markButton.dependencies).toEqual(["@tiptap/react", "lucide-react"])
+    expect(logo.dependencies).toBeUndefined()
+  })
+})
@@ -0,0 +1,82 @@
+import { type Config } from "@/src/utils/get-config"
+import { transform } from "@/src/utils/transformers"
+import {
+  applyPrefix,
+  transformPrefix,
+} from "@/src/utils/transformers/transform-prefix"
+import { describe, expect, test } from "vitest"
+
+describe("applyPrefix", () => {
+  test("rewrites custom properties and class names", () => {
+    expect(
+      applyPrefix(
+        ".tiptap-button { color: var(--tt-gray-100); }\n.tiptap.ProseMirror {}",
+        "acme"
+      )
+    ).toBe(
+      ".acme-button { color: var(--acme-gray-100); }\n.tiptap.ProseMirror {}"
+    )
+  })
+
+  test("skips packages and path segments", () => {
+    const content = [
+      '@use "../components/tiptap-ui/button";',
+      '@import "@tiptap/core/style.css";',
+      '"@/components/tiptap-node/image"',
+    ].join("\n")
+
+    expect(applyPrefix(content, "acme")).toBe(content)
+  })
+
+  test("returns the content unchanged without a prefix", () => {
+    expect(applyPrefix(".tiptap-button {}", undefined)).toBe(
+      ".tiptap-button {}"
+    )
+  })
+})
+
+describe("transformPrefix", () => {
+  const transformWith = (raw: string, prefix?: string) =>
+    transform(
+      {
+        filename: "button.tsx",
+        raw,
+        config: { prefix } as Config,
+      },
+      [transformPrefix]
+    )
+
+  test("rewrites string and template literals", async () => {
+    const output = await transformWith(
+      [
+        'const a = <div className="tiptap-button" />',
+        "const b = `tiptap-button-${size} ${className}`",
+        'const c = { "--tt-button-size": "1rem" }',
+        "",
+      ].join("\n"),
+      "acme"
+    )
+
+    expect(output).toContain('className="acme-button"')
+    expect(output).toContain("`acme-button-${size} ${className}`")
+    expect(output).toContain('"--acme-button-size"')
+  })
+
+  test("leaves module specifiers alone", async () => {
+    const raw = [
+      'import { cn } from "tiptap-utils"',
+      'export * from "tiptap-button"',
+      'const icons = import("tiptap-icons")',
+      'const theme = require("tiptap-theme")',
+      "",
+    ].join("\n")
+
+    expect(await transformWith(raw, "acme")).toBe(raw)
+  })
+
+  test("does nothing without a prefix", async () => {
+    const raw = 'const a = "tiptap-button"\n'
+
+    expect(await transformWith(raw)).toBe(raw)
+  })
+})
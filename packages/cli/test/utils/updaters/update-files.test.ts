@@ -0,0 +1,243 @@
+import { promises as fs } from "fs"
+import { tmpdir } from "os"
+import path from "path"
+import { getCustomTargetDirs } from "@/src/utils/add-components"
+import { getConfig, type Config } from "@/src/utils/get-config"
+import { getProjectInfo } from "@/src/utils/get-project-info"
+import { writePristineFile } from "@/src/utils/pristine"
+import { type RegistryItem } from "@/src/utils/registry/schema"
+import {
+  getMovedModules,
+  resolveMovedModules,
+  resolveTargetFilePath,
+  transformFileContent,
+  updateFiles,
+} from "@/src/utils/updaters/update-files"
+import { afterEach, beforeEach, describe, expect, test } from "vitest"
+
+async function createProject() {
+  const cwd = await fs.mkdtemp(path.join(tmpdir(), "tiptap-update-files-"))
+  await fs.writeFile(path.join(cwd, "package.json"), `{"name":"app"}`)
+  await fs.writeFile(
+    path.join(cwd, "tsconfig.json"),
+    JSON.stringify({
+      compilerOptions: { baseUrl: ".", paths: { "@/*": ["./src/*"] } },
+    })
+  )
+  await fs.writeFile(
+    path.join(cwd, "components.json"),
+    JSON.stringify({
+      rsc: false,
+      tsx: true,
+      aliases: { components: "@/components" },
+    })
+  )
+  await fs.writeFile(path.join(cwd, "vite.config.ts"), "")
+  await fs.mkdir(path.join(cwd, "src"))
+
+  return cwd
+}
+
+describe("getMovedModules", () => {
+  test("maps registry specifiers to target paths", () => {
+    const movedModules = getMovedModules(
+      new Map([
+        [
+          "registry/tiptap-ui/mark-button/index.tsx",
+          "/app/src/features/mark-button/index.tsx",
+        ],
+        [
+          "registry/tiptap-ui/mark-button/mark-button.scss",
+          "/app/src/features/mark-button/mark-button.scss",
+        ],
+      ])
+    )
+
+    expect(Object.fromEntries(movedModules)).toEqual({
+      "@/registry/tiptap-ui/mark-button/index.tsx":
+        "/app/src/features/mark-button/index.tsx",
+      "@/registry/tiptap-ui/mark-button/index":
+        "/app/src/features/mark-button/index",
+      "@/registry/tiptap-ui/mark-button": "/app/src/features/mark-button",
+      "@/registry/tiptap-ui/mark-button/mark-button.scss":
+        "/app/src/features/mark-button/mark-button.scss",
+    })
+  })
+})
+
+describe("--path imports", () => {
+  const markButton = {
+    name: "mark-button",
+    type: "registry:ui",
+    files: [
+      {
+        path: "registry/tiptap-ui/mark-button/mark-button.tsx",
+        type: "registry:ui",
+        content: [
+          'import { Button } from "@/registry/tiptap-ui-primitive/button"',
+          'import { useMark } from "@/registry/tiptap-ui/mark-button/use-mark"',
+          "",
+        ].join("\n"),
+      },
+      {
+        path: "registry/tiptap-ui/mark-button/use-mark.ts",
+        type: "registry:ui",
+        content: "export const useMark = () => null\n",
+      },
+    ],
+  } as RegistryItem
+  const toolbar = {
+    name: "toolbar",
+    type: "registry:ui",
+    files: [
+      {
+        path: "registry/tiptap-ui/toolbar/toolbar.tsx",
+        type: "registry:ui",
+        content:
+          'import { MarkButton } from "@/registry/tiptap-ui/mark-button/mark-button"\n',
+      },
+    ],
+  } as RegistryItem
+  const files = [...markButton.files!, ...toolbar.files!]
+
+  let cwd: string
+  let config: Config
+
+  beforeEach(async () => {
+    cwd = await createProject()
+    config = (await getConfig(cwd))!
+  })
+
+  afterEach(async () => {
+    await fs.rm(cwd, { recursive: true, force: true })
+  })
+
+  async function install(targetPath: string) {
+    const projectInfo = await getProjectInfo(cwd)
+    const targetDirs = getCustomTargetDirs(
+      [markButton, toolbar],
+      ["mark-button"],
+      config,
+      targetPath
+    )
+    const movedModules = resolveMovedModules(
+      files,
+      config,
+      projectInfo,
+      targetDirs
+    )
+
+    return Promise.all(
+      files.map(async (file) => {
+        const targetPath = resolveTargetFilePath(
+          file,
+          files,
+          config,
+          projectInfo,
+          targetDirs.get(file.path)
+        )
+        return {
+          target: path.relative(cwd, targetPath),
+          content: await transformFileContent(file, config, {
+            targetPath,
+            movedModules,
+          }),
+        }
+      })
+    )
+  }
+
+  test("imports moved files through the alias below the alias root", async () => {
+    const [markButtonFile, useMarkFile, toolbarFile] = await install(
+      "src/features/editor"
+    )
+
+    expect(markButtonFile.target).toBe(
+      "src/features/editor/mark-button/mark-button.tsx"
+    )
+    expect(useMarkFile.target).toBe(
+      "src/features/editor/mark-button/use-mark.ts"
+    )
+    expect(toolbarFile.target).toBe(
+      "src/components/tiptap-ui/toolbar/toolbar.tsx"
+    )
+
+    // Dependencies keep their default location.
+    expect(markButtonFile.content).toContain(
+      'from "@/components/tiptap-ui-primitive/button"'
+    )
+    expect(markButtonFile.content).toContain(
+      'from "@/features/editor/mark-button/use-mark"'
+    )
+    // Files that were not moved import the moved ones at their new path.
+    expect(toolbarFile.content).toContain(
+      'from "@/features/editor/mark-button/mark-button"'
+    )
+  })
+
+  test("imports moved files relatively outside the alias root", async () => {
+    const [markButtonFile, , toolbarFile] = await install("lib/editor")
+
+    expect(markButtonFile.target).toBe("lib/editor/mark-button/mark-button.tsx")
+    expect(markButtonFile.content).toContain('from "./use-mark"')
+    expect(toolbarFile.content).toContain(
+      'from "../../../../lib/editor/mark-button/mark-button"'
+    )
+  })
+})
+
+describe("merging updates", () => {
+  const target = "src/lib/tiptap-utils.ts"
+  const base = ["export const a = 1", "", "export const b = 1", ""].join("\n")
+  const local = base.replace("a = 1", "a = 2")
+  const file = (content: string) => ({
+    path: "registry/lib/tiptap-utils.ts",
+    type: "registry:lib" as const,
+    content,
+  })
+
+  let cwd: string
+  let config: Config
+
+  beforeEach(async () => {
+    cwd = await createProject()
+    config = (await getConfig(cwd))!
+
+    const filePath = path.join(cwd, target)
+    await fs.mkdir(path.dirname(filePath), { recursive: true })
+    await fs.writeFile(filePath, local, "utf-8")
+    await writePristineFile(config, filePath, base)
+  })
+
+  afterEach(async () => {
+    await fs.rm(cwd, { recursive: true, force: true })
+  })
+
+  test("applies registry changes on top of local edits", async () => {
+    const result = await updateFiles(
+      [file(base.replace("b = 1", "b = 2"))],
+      config,
+      { merge: true, silent: true }
+    )
+
+    expect(result.filesUpdated).toEqual([target])
+    expect(await fs.readFile(path.join(cwd, target), "utf-8")).toBe(
+      local.replace("b = 1", "b = 2")
+    )
+  })
+
+  test("skips files the merge leaves unchanged", async () => {
+    const filePath = path.join(cwd, target)
+    const { mtimeMs } = await fs.stat(filePath)
+
+    const result = await updateFiles([file(base)], config, {
+      merge: true,
+      silent: true,
+    })
+
+    expect(result.filesUpdated).toEqual([])
+    expect(result.filesSkipped).toEqual([target])
+    expect(result.resolvedFiles).toHaveLength(1)
+    expect((await fs.stat(filePath)).mtimeMs).toBe(mtimeMs)
+  })
+})
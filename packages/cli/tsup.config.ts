@@ -1,4 +1,7 @@
+import { promises as fs } from "fs"
 import { defineConfig } from "tsup"
+import { zodToJsonSchema } from "zod-to-json-schema"
+import { rawConfigSchema } from "./src/utils/get-config"
 
 export default defineConfig({
   clean: true,
@@ -9,4 +12,14 @@ export default defineConfig({
   minify: true,
   target: "esnext",
   outDir: "dist",
+  // The JSON Schema referenced by "$schema" in components.json.
+  async onSuccess() {
+    const schema = zodToJsonSchema(rawConfigSchema, {
+      $refStrategy: "none",
+    })
+    await fs.writeFile(
+      "dist/schema.json",
+      `${JSON.stringify({ ...schema, title: "components.json" }, null, 2)}\n`
+    )
+  },
 })